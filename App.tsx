@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { PluginType, PluginModuleState, GemimiCodeResponse, PluginLayer, VisualizerMode, AudioParamConfig, SaturationMode, ShineMode, UIComponent, UIComponentType, RackVariant, SectionVariant } from './types';
+import { PluginType, PluginModuleState, SnapshotSlot, GemimiCodeResponse, PluginLayer, VisualizerMode, AudioParamConfig, SaturationMode, ShineMode, UIComponent, UIComponentType, RackVariant, SectionVariant, RoutingGraph } from './types';
 import { PLUGIN_DEFINITIONS, LAYER_TO_PLUGIN_TYPE, createDefaultLayout, BAND_COLORS } from './constants';
 import { Knob } from './components/Knob';
 import { Slider } from './components/Slider';
@@ -9,9 +9,26 @@ import { Rack } from './components/Rack';
 import { Visualizer } from './components/Visualizer';
 import { VisualEQ } from './components/VisualEQ';
 import { StereoBar } from './components/StereoBar';
+import { ImpulseLoader } from './components/ImpulseLoader';
 import { Transport } from './components/Transport';
+import { RoutingGraphEditor } from './components/RoutingGraphEditor';
+import { LoudnessMeter } from './components/LoudnessMeter';
+import { GainReductionMeter } from './components/GainReductionMeter';
+import { EqBandControls } from './components/EqBandControls';
+import { AbSwitch } from './components/AbSwitch';
+import { SpectralMatchPanel } from './components/SpectralMatchPanel';
+import { SynthKeyboard } from './components/SynthKeyboard';
+import { HarmonicAnalyzer } from './components/HarmonicAnalyzer';
 import { audioEngine } from './services/audioEngine';
 import { generatePluginCode } from './services/geminiService';
+import { DEFAULT_BPM } from './services/tempo';
+import { encodeWav, WavBitDepth } from './services/wavEncoder';
+import { createLinearGraph, syncGraphWithModules } from './services/routing';
+import { LoudnessSnapshot, measureLoudness } from './services/loudness';
+import { formatLatency } from './services/latency';
+import { getBandCount } from './services/bands';
+import { copySnapshot, getActiveSnapshot, getChainSnapshot, switchSnapshot } from './services/snapshots';
+import { getKeyboardNote, OCTAVE_KEYS } from './services/synth';
 import { 
   Zap, Download, Code, Loader2, 
   X, GripVertical, Activity, PlayCircle, Check, Merge, 
@@ -19,7 +36,7 @@ import {
   Waves, Grid, Sparkles, Tag, Plus, Trash2, LayoutTemplate, ChevronLeft, List, Move,
   Maximize, Columns, Image as ImageIcon, Type, AlignLeft, AlignCenter, AlignRight, MousePointer2,
   CornerDownRight, FolderOpen, ToggleLeft, Sliders, Nut, Circle, Server, AlignJustify, ArrowLeftRight, ArrowUpDown, GripHorizontal, Flame,
-  ChevronDown, Wind, Copy, Users, ArrowUpToLine, ArrowDownToLine
+  ChevronDown, ChevronUp, Wind, Copy, Users, ArrowUpToLine, ArrowDownToLine, AudioLines, Piano, BarChart3
 } from 'lucide-react';
 
 const generateId = () => Math.random().toString(36).substring(2, 9);
@@ -201,6 +218,7 @@ interface DesignerContextProps {
   selectedComponentId: string | null;
   draggedComponentId: string | null;
   dragOverInfo: { id: string, position: DragPosition } | null;
+  sourceUrl: string | null; // Loaded source file, for tools that analyze it
   actions: {
     handleDragStart: (e: React.DragEvent, id: string) => void;
     handleDrop: (e: React.DragEvent, targetId: string, moduleId: string, position: any, index?: number) => void;
@@ -260,6 +278,11 @@ const RenderSidebarTree: React.FC<{ components: UIComponent[], depth?: number, m
                                comp.type === 'VISUALIZER' ? <Waves size={10} /> :
                                comp.type === 'DROPDOWN' ? <List size={10} /> :
                                comp.type === 'STEREO_BAR' ? <ArrowLeftRight size={10} /> :
+                               comp.type === 'IR_LOADER' ? <FolderOpen size={10} /> :
+                               comp.type === 'EQ_BAND_CONTROLS' ? <Sliders size={10} /> :
+                               comp.type === 'MATCH_EQ' ? <AudioLines size={10} /> :
+                               comp.type === 'SYNTH_KEYS' ? <Piano size={10} /> :
+                               comp.type === 'HARMONICS' ? <BarChart3 size={10} /> :
                                <Box size={10} />}
                               <span className="text-[10px] font-medium truncate">{comp.label || comp.type}</span>
                         </div>
@@ -288,6 +311,8 @@ const RenderComponent: React.FC<{ component: UIComponent, module: PluginModuleSt
     
     const isSelected = ctx.appMode === 'DESIGNER' && ctx.selectedComponentId === component.id;
     const isDragging = ctx.draggedComponentId === component.id;
+    // Stepped params with labels (e.g. note divisions) render their options in a DROPDOWN
+    const paramOptions = component.type === 'DROPDOWN' ? PLUGIN_DEFINITIONS[module.type].params.find(p => p.id === component.paramId)?.options : undefined;
     
     const span = component.colSpan || 1;
     let colClass = '';
@@ -372,7 +397,7 @@ const RenderComponent: React.FC<{ component: UIComponent, module: PluginModuleSt
                 ${parentLayout === 'flex' ? 'flex-1 min-w-0' : ''}
             `}
             style={{ 
-                height: component.type === 'VISUALIZER' || component.type === 'MULTIBAND_CONTROLS' ? (component.height || 280) : (component.type === 'SPACER' || component.type === 'BRANDING' || component.type === 'STEREO_BAR' ? (component.height || 24) : (component.type === 'RACK' ? 'auto' : undefined)),
+                height: component.type === 'VISUALIZER' || component.type === 'MULTIBAND_CONTROLS' || component.type === 'EQ_BAND_CONTROLS' || component.type === 'MATCH_EQ' || component.type === 'SYNTH_KEYS' || component.type === 'HARMONICS' ? (component.height || 280) : (component.type === 'SPACER' || component.type === 'BRANDING' || component.type === 'STEREO_BAR' || component.type === 'IR_LOADER' ? (component.height || 24) : (component.type === 'RACK' ? 'auto' : undefined)),
             }}
         >
             {ctx.dragOverInfo?.id === component.id && (
@@ -429,11 +454,13 @@ const RenderComponent: React.FC<{ component: UIComponent, module: PluginModuleSt
                     <div className="relative">
                          <select 
                             value={
+                                paramOptions ? Math.round(module.params[component.paramId!] ?? 0) :
                                 component.paramId === 'saturationMode' ? (module.saturationMode || 'TUBE') :
                                 component.paramId === 'shineMode' ? (module.shineMode || 'AIR') : 
                                 component.paramId === 'multibandStyle' ? (module.multibandStyle || 'CLEAN') : ''
                             }
                             onChange={(e) => {
+                                if (paramOptions && component.paramId) ctx.actions.updateParam(module.id, component.paramId, Number(e.target.value));
                                 if (component.paramId === 'saturationMode') ctx.actions.updateModule(module.id, { saturationMode: e.target.value as any });
                                 if (component.paramId === 'shineMode') ctx.actions.updateModule(module.id, { shineMode: e.target.value as any });
                                 if (component.paramId === 'multibandStyle') ctx.actions.updateModule(module.id, { multibandStyle: e.target.value as any });
@@ -441,6 +468,9 @@ const RenderComponent: React.FC<{ component: UIComponent, module: PluginModuleSt
                             className="w-full bg-[#1a1a1a] border border-white/10 rounded p-1.5 text-[10px] font-bold uppercase text-white outline-none focus:border-cyan-500/50 appearance-none cursor-pointer"
                             style={{ color: component.color }}
                          >
+                            {paramOptions && paramOptions.map((label, idx) => (
+                                <option key={label} value={idx}>{label}</option>
+                            ))}
                             {component.paramId === 'saturationMode' && (
                                 <>
                                 <option value="TUBE">Tube</option>
@@ -509,6 +539,17 @@ const RenderComponent: React.FC<{ component: UIComponent, module: PluginModuleSt
                 </div>
             )}
 
+            {component.type === 'IR_LOADER' && (
+                <div className="w-full h-full pointer-events-auto p-1">
+                    <ImpulseLoader
+                        impulse={module.impulse}
+                        color={component.color}
+                        onLoad={(impulse) => ctx.actions.updateModule(module.id, { impulse, params: { ...module.params, irSource: 1 } })}
+                        onClear={() => ctx.actions.updateModule(module.id, { impulse: undefined, params: { ...module.params, irSource: 0 } })}
+                    />
+                </div>
+            )}
+
             {component.type === 'MULTIBAND_CONTROLS' && (
                  <div className="w-full h-full pointer-events-auto p-2">
                     <div className="w-full h-full bg-[#080808] rounded-lg border border-white/5 relative overflow-hidden flex items-center justify-between px-6">
@@ -525,6 +566,14 @@ const RenderComponent: React.FC<{ component: UIComponent, module: PluginModuleSt
                                 Band {module.selectedBand || 1}
                             </div>
                         </div>
+
+                        {/* Live gain reduction per band */}
+                        <div className="flex flex-col z-10 h-2/3 px-4">
+                            <span className="text-[8px] font-bold text-neutral-500 uppercase tracking-widest mb-1">GR</span>
+                            <div className="flex-1">
+                                <GainReductionMeter moduleId={module.id} colors={BAND_COLORS.slice(0, getBandCount(module.params))} selected={module.selectedBand || 1} />
+                            </div>
+                        </div>
                         
                         {/* Center: Main Power Knob */}
                         <div className="flex items-center z-10">
@@ -564,6 +613,40 @@ const RenderComponent: React.FC<{ component: UIComponent, module: PluginModuleSt
                  </div>
             )}
 
+            {component.type === 'EQ_BAND_CONTROLS' && (
+                <div className="w-full h-full pointer-events-auto p-2">
+                    <EqBandControls module={module} onChangeParam={(p, v) => ctx.actions.updateParam(module.id, p, v)} />
+                </div>
+            )}
+
+            {component.type === 'MATCH_EQ' && (
+                <div className="w-full h-full pointer-events-auto p-2">
+                    <SpectralMatchPanel
+                        module={module}
+                        sourceUrl={ctx.sourceUrl}
+                        color={component.color || module.color}
+                        onChangeParam={(p, v) => ctx.actions.updateParam(module.id, p, v)}
+                        onUpdateModule={(updates) => ctx.actions.updateModule(module.id, updates)}
+                    />
+                </div>
+            )}
+
+            {component.type === 'HARMONICS' && (
+                <div className="w-full h-full pointer-events-auto p-2">
+                    <HarmonicAnalyzer module={module} color={component.color || module.color} />
+                </div>
+            )}
+
+            {component.type === 'SYNTH_KEYS' && (
+                <div className="w-full h-full pointer-events-auto p-2">
+                    <SynthKeyboard
+                        octave={module.params.octave ?? 4}
+                        color={component.color || module.color}
+                        onOctaveChange={(octave) => ctx.actions.updateParam(module.id, 'octave', Math.max(1, Math.min(7, octave)))}
+                    />
+                </div>
+            )}
+
             {component.type === 'VISUALIZER' && (
                 <div className="w-full h-full pointer-events-auto">
                     {component.visualizerMode === 'VECTORSCOPE' ? (
@@ -704,6 +787,9 @@ export default function App() {
   const [isGenerating, setIsGenerating] = useState(false);
   const [audioFile, setAudioFile] = useState<string | null>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
+  // Second file feeding the sidechain key bus, played in lockstep with the source
+  const [keyFile, setKeyFile] = useState<string | null>(null);
+  const keyRef = useRef<HTMLAudioElement>(null);
   
   // Drag & Drop State
   const [draggedComponentId, setDraggedComponentId] = useState<string | null>(null);
@@ -718,6 +804,21 @@ export default function App() {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [bpm, setBpm] = useState(DEFAULT_BPM);
+  const [bounceDepth, setBounceDepth] = useState<WavBitDepth>(24);
+  const [isBouncing, setIsBouncing] = useState(false);
+  const [bounceLoudness, setBounceLoudness] = useState<LoudnessSnapshot | null>(null);
+
+  // A/B comparison: output trimmed to the bypassed loudness, and the trim it applies
+  const [autoGain, setAutoGain] = useState(false);
+  const [autoGainDb, setAutoGainDb] = useState(0);
+
+  // Module card reordering (Architect mode)
+  const [draggedModuleId, setDraggedModuleId] = useState<string | null>(null);
+  const [moduleDropTarget, setModuleDropTarget] = useState<{ id: string, position: 'before' | 'after' } | null>(null);
+
+  // Split/merge routing graph, null while the project is a plain top-to-bottom chain
+  const [routing, setRouting] = useState<RoutingGraph | null>(null);
   
   // Visualizer State
   const [visualizerMode, setVisualizerMode] = useState<VisualizerMode>('SPECTRUM');
@@ -761,9 +862,6 @@ export default function App() {
     };
 
     setModules(prev => [...prev, newModule]);
-    if (type === PluginType.OSCILLATOR) {
-        audioEngine.startOscillator();
-    }
   };
 
   const removeModule = (id: string) => {
@@ -775,6 +873,31 @@ export default function App() {
       setModules(prev => prev.map(m => m.id === id ? { ...m, enabled: !m.enabled } : m));
   };
   
+  // Chain order is signal-flow order, the engine rewires from the new id sequence
+  const moveModule = (id: string, direction: -1 | 1) => {
+      setModules(prev => {
+          const idx = prev.findIndex(m => m.id === id);
+          const target = idx + direction;
+          if (idx < 0 || target < 0 || target >= prev.length) return prev;
+          const next = [...prev];
+          [next[idx], next[target]] = [next[target], next[idx]];
+          return next;
+      });
+  };
+
+  const reorderModule = (dragId: string, targetId: string, position: 'before' | 'after') => {
+      if (dragId === targetId) return;
+      setModules(prev => {
+          const dragged = prev.find(m => m.id === dragId);
+          if (!dragged) return prev;
+          const next = prev.filter(m => m.id !== dragId);
+          const targetIdx = next.findIndex(m => m.id === targetId);
+          if (targetIdx < 0) return prev;
+          next.splice(position === 'before' ? targetIdx : targetIdx + 1, 0, dragged);
+          return next;
+      });
+  };
+  
   const toggleSelection = (id: string) => {
       setModules(prev => prev.map(m => m.id === id ? { ...m, selected: !m.selected } : m));
   };
@@ -812,6 +935,30 @@ export default function App() {
       });
   };
 
+  // A/B snapshots. Switching only changes params, so modules update in place with smoothing.
+  const applySnapshots = (ids: string[] | null, change: (m: PluginModuleState) => PluginModuleState) => {
+      setModules(prev => prev.map(m => {
+          if (ids && !ids.includes(m.id)) return m;
+          const next = change(m);
+          if (next !== m) audioEngine.updateParams(next);
+          return next;
+      }));
+  };
+  const switchModuleSnapshot = (id: string, slot: SnapshotSlot) => applySnapshots([id], m => switchSnapshot(m, slot));
+  const copyModuleSnapshot = (id: string) => applySnapshots([id], copySnapshot);
+  const switchChainSnapshot = (slot: SnapshotSlot) => applySnapshots(null, m => switchSnapshot(m, slot));
+  const copyChainSnapshot = () => applySnapshots(null, copySnapshot);
+
+  useEffect(() => {
+      audioEngine.setAutoGain(autoGain);
+      if (!autoGain) {
+          setAutoGainDb(0);
+          return;
+      }
+      const timer = window.setInterval(() => setAutoGainDb(audioEngine.getAutoGainDb()), 250);
+      return () => window.clearInterval(timer);
+  }, [autoGain]);
+
   // UI Layout Editing
   const addComponentToLayout = (moduleId: string, component: UIComponent) => {
       setModules(prev => prev.map(m => {
@@ -1059,18 +1206,102 @@ export default function App() {
   };
 
   useEffect(() => {
-    audioEngine.updatePluginChain(modules);
-  }, [modules.length, modules.map(m => m.id).join(','), modules.map(m => m.enabled).join(','), modules.map(m => m.saturationMode).join(','), modules.map(m => m.shineMode).join(','), modules.map(m => m.multibandStyle).join(',')]);
+    audioEngine.setTempo(bpm);
+  }, [bpm]);
+
+  useEffect(() => {
+    setRouting(prev => prev ? syncGraphWithModules(prev, modules) : prev);
+  }, [modules.map(m => m.id).join(',')]);
+
+  // Editor positions don't affect the audio graph
+  const routingKey = routing
+    ? JSON.stringify([routing.nodes.map(n => [n.id, n.kind, n.splitMode, n.splitFreq]), routing.edges])
+    : '';
+
+  useEffect(() => {
+    audioEngine.updatePluginChain(modules, routing);
+  }, [routingKey, modules.length, modules.map(m => m.id).join(','), modules.map(m => m.enabled).join(','), modules.map(m => m.saturationMode).join(','), modules.map(m => m.shineMode).join(','), modules.map(m => m.multibandStyle).join(','), modules.map(m => `${m.params.xoverMode}:${m.params.xoverSlope}`).join(',')]);
+
+  // Computer keyboard plays the synth source. Keys map to notes at the first enabled
+  // oscillator's octave; the note each key started is kept so octave changes don't hang notes.
+  const synthKeys = useRef<Map<string, number>>(new Map());
+  const synthModules = useRef<PluginModuleState[]>([]);
+  synthModules.current = modules.filter(m => m.type === PluginType.OSCILLATOR && m.enabled);
+
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      const synths = synthModules.current;
+      if (synths.length === 0 || e.repeat || e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+      const key = e.key.toLowerCase();
+      const octave = synths[0].params.octave ?? 4;
+      const shift = OCTAVE_KEYS[key];
+      if (shift) {
+        synths.forEach(m => updateParam(m.id, 'octave', Math.max(1, Math.min(7, Math.round(octave) + shift))));
+        return;
+      }
+      const note = getKeyboardNote(key, octave);
+      if (note === null || synthKeys.current.has(key)) return;
+      e.preventDefault();
+      synthKeys.current.set(key, note);
+      audioEngine.noteOn(note);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      const note = synthKeys.current.get(key);
+      if (note === undefined) return;
+      synthKeys.current.delete(key);
+      audioEngine.noteOff(note);
+    };
+    const onBlur = () => {
+      synthKeys.current.clear();
+      audioEngine.allNotesOff();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, [updateParam]);
+
+  const latency = audioEngine.getLatencyReport(modules, routing);
 
   // Code Generation
   const handleGenerateCode = async () => {
     setIsGenerating(true);
-    const code = await generatePluginCode(modules, userPrompt, pluginName);
+    const code = await generatePluginCode(modules, userPrompt, pluginName, routing);
     setGeneratedCode(code);
     setAppMode('ENGINEER');
     setIsGenerating(false);
   };
 
+  // Offline render of the loaded source through the current chain, downloaded as WAV
+  const handleBounce = async () => {
+    if (!audioFile || isBouncing) return;
+    setIsBouncing(true);
+    try {
+      const source = await audioEngine.decodeSource(audioFile);
+      const key = keyFile ? await audioEngine.decodeSource(keyFile) : null;
+      const rendered = await audioEngine.renderOffline(modules, source, 3, routing, key);
+      setBounceLoudness(measureLoudness(rendered));
+      const url = URL.createObjectURL(encodeWav(rendered, bounceDepth));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${pluginName}_${bounceDepth}bit.wav`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e) {
+      console.error('Bounce failed', e);
+    }
+    setIsBouncing(false);
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -1080,6 +1311,14 @@ export default function App() {
     }
   };
 
+  const handleKeyUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setKeyFile(URL.createObjectURL(file));
+      handleInitAudio();
+    }
+  };
+
   const activeModule = modules.find(m => m.id === selectedModuleId);
   const activeComponent = activeModule?.layout ? findComponent(activeModule.layout, selectedComponentId || '') : null;
   
@@ -1089,6 +1328,7 @@ export default function App() {
     selectedComponentId,
     draggedComponentId,
     dragOverInfo,
+    sourceUrl: audioFile,
     actions: {
         handleDragStart: handleComponentDragStart,
         handleDrop: handleComponentDrop,
@@ -1142,7 +1382,7 @@ export default function App() {
                     <div className="space-y-3">
                         <label className="text-[10px] font-bold text-neutral-500 uppercase tracking-widest block">Architecture Template</label>
                         <div className="grid grid-cols-2 gap-2">
-                            {[PluginType.VISUAL_EQ, PluginType.MULTIBAND, PluginType.COMPRESSOR, PluginType.SATURATION, PluginType.SHINE, PluginType.HYBRID_EQ_DYN, PluginType.REVERB, PluginType.DELAY, PluginType.STEREO_IMAGER, PluginType.CHORUS, PluginType.DOUBLER, PluginType.FLANGER].map(type => (
+                            {[PluginType.VISUAL_EQ, PluginType.MULTIBAND, PluginType.COMPRESSOR, PluginType.SATURATION, PluginType.SHINE, PluginType.HYBRID_EQ_DYN, PluginType.REVERB, PluginType.DELAY, PluginType.STEREO_IMAGER, PluginType.CHORUS, PluginType.DOUBLER, PluginType.FLANGER, PluginType.OSCILLATOR].map(type => (
                                 <button 
                                 key={type}
                                 onClick={() => addModule(type)}
@@ -1249,6 +1489,15 @@ export default function App() {
                                             <ArrowLeftRight size={16} className="text-neutral-500 group-hover:text-cyan-300 mb-2" />
                                             <span className="text-[10px] font-bold text-neutral-400 group-hover:text-white">Stereo Bar</span>
                                         </button>
+                                        <button 
+                                            draggable
+                                            onDragStart={(e) => handleSidebarDragStart(e, { type: 'IR_LOADER', label: 'Impulse', colSpan: 4, height: 56 })}
+                                            onClick={() => addComponentToLayout(activeModule.id, { id: generateId(), type: 'IR_LOADER', label: 'Impulse', colSpan: 4, height: 56 })}
+                                            className="flex flex-col items-center justify-center p-3 bg-[#0a0a0a] border border-white/10 hover:border-purple-500/50 hover:bg-purple-500/5 rounded transition-all group"
+                                        >
+                                            <FolderOpen size={16} className="text-neutral-500 group-hover:text-purple-300 mb-2" />
+                                            <span className="text-[10px] font-bold text-neutral-400 group-hover:text-white">IR Loader</span>
+                                        </button>
                                     </div>
                             </div>
                             
@@ -1479,6 +1728,49 @@ export default function App() {
                           <input type="file" accept="audio/*" className="hidden" onChange={handleFileUpload} />
                       </label>
                   </button>
+                  <button className="flex items-center space-x-2 px-4 py-1.5 bg-white/5 border border-white/5 rounded-full hover:bg-white/10 transition-colors">
+                      {keyFile ? <div className="w-2 h-2 rounded-full bg-yellow-500 animate-pulse"></div> : <Zap size={14} className="text-neutral-400" />}
+                      <label className="text-[10px] font-bold uppercase tracking-wide cursor-pointer text-neutral-300">
+                          {keyFile ? 'Key Loaded' : 'Load SC Key'}
+                          <input type="file" accept="audio/*" className="hidden" onChange={handleKeyUpload} />
+                      </label>
+                  </button>
+                  {modules.length > 0 && (
+                      <div className="flex items-center space-x-2 bg-white/5 border border-white/5 rounded-full px-2 py-1">
+                          <span className="text-[9px] font-bold uppercase tracking-widest text-neutral-500">Chain</span>
+                          <AbSwitch slot={getChainSnapshot(modules)} onSwitch={switchChainSnapshot} onCopy={copyChainSnapshot} size="md" />
+                          <button
+                              onClick={() => setAutoGain(prev => !prev)}
+                              title="Match the output loudness to the bypassed source"
+                              className={`px-2 py-0.5 rounded text-[9px] font-bold uppercase tracking-wide font-mono transition-colors
+                                  ${autoGain ? 'bg-green-500/20 text-green-400' : 'text-neutral-500 hover:text-neutral-300'}
+                              `}
+                          >
+                              {autoGain ? `Auto Gain ${autoGainDb >= 0 ? '+' : ''}${autoGainDb.toFixed(1)} dB` : 'Auto Gain'}
+                          </button>
+                      </div>
+                  )}
+                  {audioFile && (
+                      <div className="flex items-center bg-white/5 border border-white/5 rounded-full pl-1 pr-1">
+                          <select
+                              value={bounceDepth}
+                              onChange={(e) => setBounceDepth(Number(e.target.value) as WavBitDepth)}
+                              className="bg-transparent text-[10px] font-bold uppercase text-neutral-400 outline-none cursor-pointer px-2"
+                          >
+                              <option value={16}>16-bit</option>
+                              <option value={24}>24-bit</option>
+                              <option value={32}>32-bit float</option>
+                          </select>
+                          <button
+                              onClick={handleBounce}
+                              disabled={isBouncing}
+                              className="flex items-center space-x-2 px-3 py-1.5 rounded-full hover:bg-white/10 transition-colors disabled:opacity-50"
+                          >
+                              {isBouncing ? <Loader2 size={12} className="animate-spin text-cyan-400" /> : <Download size={12} className="text-neutral-400" />}
+                              <span className="text-[10px] font-bold uppercase tracking-wide text-neutral-300">{isBouncing ? 'Rendering' : 'Bounce WAV'}</span>
+                          </button>
+                      </div>
+                  )}
               </div>
 
               <div className="flex bg-[#0a0a0a] border border-white/10 rounded-lg p-1">
@@ -1572,14 +1864,55 @@ export default function App() {
                       )}
 
                       <div className="w-full max-w-5xl space-y-12 pb-24 z-10">
+                          {appMode === 'ARCHITECT' && modules.length > 0 && (
+                              <div className="space-y-3">
+                                  <div className="flex items-center space-x-4">
+                                      <button
+                                        onClick={(e) => { e.stopPropagation(); setRouting(routing ? null : createLinearGraph(modules)); }}
+                                        className={`flex items-center space-x-2 px-3 py-1.5 rounded border text-[10px] font-bold uppercase tracking-widest transition-all
+                                            ${routing ? 'bg-yellow-600/20 text-yellow-500 border-yellow-600/50' : 'bg-white/5 text-neutral-500 border-white/10 hover:text-neutral-300'}
+                                        `}
+                                      >
+                                          <GitMerge size={12} /> <span>{routing ? 'Graph Routing' : 'Linear Chain'}</span>
+                                      </button>
+                                      <span className="text-[10px] font-mono text-neutral-500" title="Slowest input-to-output path; the plugin reports this to the host">
+                                          Latency {formatLatency(latency.total, latency.sampleRate)}
+                                      </span>
+                                  </div>
+                                  {routing && <RoutingGraphEditor graph={routing} modules={modules} onChange={setRouting} />}
+                              </div>
+                          )}
                           {modules.map((module, idx) => (
                               <div 
                                 key={module.id}
                                 onClick={(e) => { e.stopPropagation(); setSelectedModuleId(module.id); }}
+                                onDragOver={(e) => {
+                                    if (!draggedModuleId) return;
+                                    e.preventDefault();
+                                    const rect = e.currentTarget.getBoundingClientRect();
+                                    const position = e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+                                    if (moduleDropTarget?.id !== module.id || moduleDropTarget.position !== position) {
+                                        setModuleDropTarget({ id: module.id, position });
+                                    }
+                                }}
+                                onDrop={(e) => {
+                                    if (!draggedModuleId || !moduleDropTarget) return;
+                                    e.preventDefault();
+                                    e.stopPropagation();
+                                    reorderModule(draggedModuleId, moduleDropTarget.id, moduleDropTarget.position);
+                                    setDraggedModuleId(null);
+                                    setModuleDropTarget(null);
+                                }}
                                 className={`relative transition-all duration-300 group
                                     ${selectedModuleId === module.id ? 'scale-[1.02]' : 'scale-100 opacity-90 hover:opacity-100'}
+                                    ${draggedModuleId === module.id ? 'opacity-40' : ''}
                                 `}
                               >
+                                  {/* Reorder Drop Indicator */}
+                                  {draggedModuleId && moduleDropTarget?.id === module.id && draggedModuleId !== module.id && (
+                                      <div className={`absolute left-0 right-0 h-0.5 bg-cyan-500 shadow-[0_0_10px_rgba(6,182,212,0.8)] z-50 ${moduleDropTarget.position === 'before' ? '-top-6' : '-bottom-6'}`} />
+                                  )}
+
                                   {/* Module Header */}
                                   <div className={`
                                       absolute -top-8 left-0 flex items-center space-x-3 px-2 transition-all
@@ -1588,9 +1921,47 @@ export default function App() {
                                        <span className="text-[10px] font-bold uppercase tracking-widest text-cyan-500">{String(idx + 1).padStart(2, '0')}</span>
                                        <div className="h-px w-8 bg-cyan-900"></div>
                                        <span className="text-[10px] font-bold uppercase tracking-widest text-white">{module.type}</span>
+                                       {latency.perModule[module.id] > 0 && (
+                                           <span className="text-[9px] font-mono text-neutral-500">{formatLatency(latency.perModule[module.id], latency.sampleRate)}</span>
+                                       )}
+                                       <AbSwitch
+                                           slot={getActiveSnapshot(module)}
+                                           onSwitch={(slot) => switchModuleSnapshot(module.id, slot)}
+                                           onCopy={() => copyModuleSnapshot(module.id)}
+                                       />
                                        
                                        {appMode === 'ARCHITECT' && (
                                             <div className="ml-4 flex items-center space-x-1">
+                                                <div
+                                                    draggable
+                                                    onDragStart={(e) => {
+                                                        e.stopPropagation();
+                                                        e.dataTransfer.effectAllowed = 'move';
+                                                        e.dataTransfer.setData('text/plain', module.id);
+                                                        setDraggedModuleId(module.id);
+                                                    }}
+                                                    onDragEnd={() => { setDraggedModuleId(null); setModuleDropTarget(null); }}
+                                                    className="p-1 rounded hover:bg-white/10 text-neutral-600 hover:text-white cursor-grab"
+                                                    title="Drag to Reorder"
+                                                >
+                                                    <GripVertical size={12} />
+                                                </div>
+                                                <button 
+                                                    onClick={(e) => { e.stopPropagation(); moveModule(module.id, -1); }}
+                                                    disabled={idx === 0}
+                                                    className="p-1 rounded hover:bg-white/10 text-neutral-600 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                                                    title="Move Up"
+                                                >
+                                                    <ChevronUp size={12} />
+                                                </button>
+                                                <button 
+                                                    onClick={(e) => { e.stopPropagation(); moveModule(module.id, 1); }}
+                                                    disabled={idx === modules.length - 1}
+                                                    className="p-1 rounded hover:bg-white/10 text-neutral-600 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                                                    title="Move Down"
+                                                >
+                                                    <ChevronDown size={12} />
+                                                </button>
                                                 <button 
                                                     onClick={(e) => { e.stopPropagation(); toggleBypass(module.id); }}
                                                     className={`p-1 rounded hover:bg-white/10 ${!module.enabled ? 'text-red-500' : 'text-green-500'}`}
@@ -1688,18 +2059,28 @@ export default function App() {
               )}
           </div>
 
+          {/* Master Loudness */}
+          <LoudnessMeter bounce={bounceLoudness} />
+
           {/* Transport Bar */}
           <Transport 
              isPlaying={isPlaying}
              currentTime={currentTime}
              duration={duration || 180} // Mock duration if no file
+             bpm={bpm}
+             onBpmChange={setBpm}
              onPlayPause={() => {
                  if (audioRef.current) {
                      if (isPlaying) {
                          audioRef.current.pause();
+                         keyRef.current?.pause();
                          audioEngine.getContext().suspend();
                      } else {
                          audioRef.current.play();
+                         if (keyRef.current) {
+                             keyRef.current.currentTime = audioRef.current.currentTime;
+                             keyRef.current.play();
+                         }
                          audioEngine.resume();
                      }
                      setIsPlaying(!isPlaying);
@@ -1708,6 +2089,7 @@ export default function App() {
              onSeek={(time) => {
                  if (audioRef.current) {
                      audioRef.current.currentTime = time;
+                     if (keyRef.current) keyRef.current.currentTime = time;
                      setCurrentTime(time);
                  }
              }}
@@ -1715,6 +2097,9 @@ export default function App() {
                  if (audioRef.current) {
                      audioRef.current.currentTime = 0;
                  }
+                 if (keyRef.current) {
+                     keyRef.current.currentTime = 0;
+                 }
              }}
           />
           {/* Hidden Audio Element */}
@@ -1730,6 +2115,20 @@ export default function App() {
                 }}
               />
           )}
+          {keyFile && (
+              <audio
+                ref={keyRef}
+                src={keyFile}
+                loop
+                onLoadedMetadata={(e) => {
+                    audioEngine.loadSidechainSource(e.currentTarget);
+                    if (isPlaying && audioRef.current) {
+                        e.currentTarget.currentTime = audioRef.current.currentTime;
+                        e.currentTarget.play();
+                    }
+                }}
+              />
+          )}
       </div>
     </div>
   );
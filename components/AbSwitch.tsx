@@ -0,0 +1,41 @@
+import React from 'react';
+import { Copy } from 'lucide-react';
+import { SnapshotSlot } from '../types';
+
+interface AbSwitchProps {
+  slot: SnapshotSlot | null; // null while a chain's modules sit on different slots
+  onSwitch: (slot: SnapshotSlot) => void;
+  onCopy?: () => void;
+  size?: 'sm' | 'md';
+}
+
+// A/B snapshot toggle for a module or the whole chain. Copy overwrites the other slot with
+// what is live now.
+export const AbSwitch: React.FC<AbSwitchProps> = ({ slot, onSwitch, onCopy, size = 'sm' }) => {
+  const pad = size === 'sm' ? 'px-1.5 py-0.5 text-[9px]' : 'px-2.5 py-1 text-[10px]';
+  return (
+    <div className="flex items-center bg-black/40 border border-white/10 rounded">
+      {(['A', 'B'] as SnapshotSlot[]).map(s => (
+        <button
+          key={s}
+          onClick={(e) => { e.stopPropagation(); onSwitch(s); }}
+          className={`${pad} font-bold font-mono rounded transition-colors
+              ${slot === s ? (s === 'A' ? 'bg-cyan-500/20 text-cyan-400' : 'bg-orange-500/20 text-orange-400') : 'text-neutral-600 hover:text-neutral-300'}
+          `}
+          title={`Snapshot ${s}`}
+        >
+          {s}
+        </button>
+      ))}
+      {onCopy && (
+        <button
+          onClick={(e) => { e.stopPropagation(); onCopy(); }}
+          className="p-1 text-neutral-600 hover:text-white transition-colors"
+          title={`Copy ${slot || 'live'} to ${slot === 'B' ? 'A' : 'B'}`}
+        >
+          <Copy size={size === 'sm' ? 9 : 11} />
+        </button>
+      )}
+    </div>
+  );
+};
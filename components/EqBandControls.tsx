@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { PluginModuleState } from '../types';
+import { BAND_COLORS } from '../constants';
+import { audioEngine } from '../services/audioEngine';
+import { isDynamicBand } from '../services/dynamicEq';
+import { EQ_SHAPES, getBandShape, getCutSlope, isCutShape, shapeSupportsDynamics } from '../services/eqShapes';
+import { EQ_CHANNEL_COLORS, EQ_CHANNELS, getBandChannel } from '../services/eqChannels';
+import { isLinearPhase } from '../services/linearPhase';
+import { Knob } from './Knob';
+import { Switch } from './Switch';
+
+interface EqBandControlsProps {
+  module: PluginModuleState;
+  onChangeParam: (paramId: string, val: number) => void;
+}
+
+// Dynamics of the EQ band selected in the curve view. The set gain is the most the band will
+// move; the live readout shows where it sits right now. The linear-phase FIR is designed
+// once per curve, so dynamic bands hold their set gain in that mode. Only bells and shelves
+// can be dynamic; the shape and channel are picked from the handle's context menu.
+export const EqBandControls: React.FC<EqBandControlsProps> = ({ module, onChangeParam }) => {
+  const band = module.selectedBand || 1;
+  const color = BAND_COLORS[band - 1];
+  const dynamic = isDynamicBand(module.params, band);
+  const shape = getBandShape(module.params, band);
+  const canBeDynamic = shapeSupportsDynamics(shape);
+  const shapeLabel = EQ_SHAPES.find(s => s.shape === shape)?.label || '';
+  const channel = getBandChannel(module.params, band);
+  const [live, setLive] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!dynamic) {
+      setLive(null);
+      return;
+    }
+    let animationId: number;
+    const poll = () => {
+      animationId = requestAnimationFrame(poll);
+      const gains = audioEngine.getDynamicEqGains(module.id);
+      const next = gains.length >= band ? gains[band - 1] : null;
+      setLive(prev => (prev !== null && next !== null && Math.abs(prev - next) < 0.05 ? prev : next));
+    };
+    poll();
+    return () => cancelAnimationFrame(animationId);
+  }, [module.id, band, dynamic]);
+
+  const param = (suffix: string, def: number) => {
+    const val = module.params[`b${band}${suffix}`];
+    return typeof val === 'number' && Number.isFinite(val) ? val : def;
+  };
+
+  return (
+    <div className="w-full h-full bg-[#080808] rounded-lg border border-white/5 relative overflow-hidden flex items-center justify-between px-6">
+      <div className="absolute inset-0 opacity-10 pointer-events-none transition-colors duration-300" style={{ backgroundColor: color }} />
+
+      <div className="flex flex-col justify-center z-10 border-r border-white/5 pr-6 h-2/3">
+        <span className="text-[9px] font-bold text-neutral-500 uppercase tracking-widest mb-1">Selected</span>
+        <div className="text-2xl font-black uppercase tracking-tighter leading-none" style={{ color }}>Band {band}</div>
+        <span className="text-[9px] font-bold text-neutral-400 uppercase tracking-wider mt-1">
+          {shapeLabel}{isCutShape(shape) ? ` ${getCutSlope(module.params, band)} dB/oct` : ''}
+          {channel > 0 && <span style={{ color: EQ_CHANNEL_COLORS[channel] }}> / {EQ_CHANNELS[channel]}</span>}
+        </span>
+        <span className="text-[9px] font-mono text-neutral-500 mt-1">
+          {dynamic && isLinearPhase(module.params) ? 'Static in linear phase' : dynamic && live !== null ? `Now ${live >= 0 ? '+' : ''}${live.toFixed(1)} dB` : 'Static'} / {param('Gain', 0).toFixed(1)} dB
+        </span>
+      </div>
+
+      <div className={`z-10 w-20 ${canBeDynamic ? '' : 'opacity-40 pointer-events-none'}`}>
+        <Switch label="Dynamic" value={dynamic ? 1 : 0} color={color} style="classic" onChange={(val) => onChangeParam(`b${band}DynOn`, val)} />
+      </div>
+
+      <div className={`flex items-center space-x-4 z-10 pl-6 border-l border-white/5 h-2/3 transition-opacity ${dynamic ? '' : 'opacity-40'}`}>
+        <Knob label="Threshold" value={param('Dyn', 0)} min={-60} max={0} unit="dB" size={48} variant="tech" color={color} onChange={(val) => onChangeParam(`b${band}Dyn`, val)} />
+        <Knob label="Ratio" value={param('Ratio', 4)} min={1} max={20} unit=":1" size={48} variant="tech" color={color} onChange={(val) => onChangeParam(`b${band}Ratio`, val)} />
+        <Knob label="Attack" value={param('Attack', 0.01)} min={0} max={0.2} unit="s" size={48} variant="tech" color={color} onChange={(val) => onChangeParam(`b${band}Attack`, val)} />
+        <Knob label="Release" value={param('Release', 0.1)} min={0.01} max={1} unit="s" size={48} variant="tech" color={color} onChange={(val) => onChangeParam(`b${band}Release`, val)} />
+      </div>
+    </div>
+  );
+};
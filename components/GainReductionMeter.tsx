@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import { audioEngine } from '../services/audioEngine';
+
+interface GainReductionMeterProps {
+  moduleId: string;
+  colors: string[]; // One per bar
+  selected?: number; // 1-based bar to highlight
+  range?: number; // dB shown full scale
+}
+
+// Bars hang from the top and grow downwards with the reduction, like a hardware GR meter
+export const GainReductionMeter: React.FC<GainReductionMeterProps> = ({ moduleId, colors, selected, range = 24 }) => {
+  const [values, setValues] = useState<number[]>([]);
+
+  useEffect(() => {
+    let animationId: number;
+    const poll = () => {
+      animationId = requestAnimationFrame(poll);
+      const next = audioEngine.getGainReduction(moduleId);
+      setValues(prev => (prev.length === next.length && prev.every((v, i) => Math.abs(v - next[i]) < 0.05) ? prev : next));
+    };
+    poll();
+    return () => cancelAnimationFrame(animationId);
+  }, [moduleId]);
+
+  return (
+    <div className="flex items-stretch space-x-1 h-full">
+      {colors.map((color, i) => {
+        const gr = Math.min(0, values[i] || 0);
+        const isSelected = selected === i + 1;
+        return (
+          <div key={i} className="flex flex-col items-center w-3">
+            <div className={`flex-1 w-full bg-black/60 rounded-sm overflow-hidden border ${isSelected ? 'border-white/30' : 'border-white/5'}`}>
+              <div
+                className="w-full transition-[height] duration-75"
+                style={{ height: `${Math.min(100, (-gr / range) * 100)}%`, backgroundColor: color, opacity: isSelected ? 1 : 0.6 }}
+              />
+            </div>
+            <span className="text-[7px] font-mono text-neutral-500 mt-0.5">{gr < -0.05 ? Math.round(gr) : 0}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PluginModuleState, SaturationMode } from '../types';
+import { audioEngine } from '../services/audioEngine';
+import { analyzeHarmonics, DEFAULT_TEST_LEVEL, makeDistortionCurve, SATURATION_MODES, TEST_LEVELS } from '../services/harmonics';
+import { DEFAULT_OVERSAMPLE, oversampleFactor } from '../services/latency';
+
+interface HarmonicAnalyzerProps {
+  module: PluginModuleState;
+  color?: string;
+}
+
+const RANGE_DB = 100;
+
+// Static distortion analysis of the saturator at its current drive and oversampling: THD+N of
+// every mode for comparison, and for the inspected one (the module's own by default) the
+// harmonic levels after the output trim, the even/odd balance and the transfer curve.
+export const HarmonicAnalyzer: React.FC<HarmonicAnalyzerProps> = ({ module, color = '#f97316' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [levelIndex, setLevelIndex] = useState(DEFAULT_TEST_LEVEL);
+  const [inspected, setInspected] = useState<SaturationMode | null>(null);
+  const moduleMode = module.saturationMode || 'TUBE';
+  const mode = inspected || moduleMode;
+  const drive = module.params.drive ?? 20;
+  const output = module.params.output ?? 0;
+  const factor = oversampleFactor(module.params.oversample ?? DEFAULT_OVERSAMPLE);
+  const sampleRate = audioEngine.getContext().sampleRate;
+  const level = TEST_LEVELS[levelIndex];
+
+  const curves = useMemo(() => SATURATION_MODES.map(m => makeDistortionCurve(drive, m)), [drive]);
+  const analyses = useMemo(
+    () => curves.map(curve => analyzeHarmonics(curve, level, sampleRate, factor)),
+    [curves, level, sampleRate, factor]
+  );
+  const index = SATURATION_MODES.indexOf(mode);
+  const analysis = analyses[index];
+  const curve = curves[index];
+
+  // Transfer curve over -1..1 with the test sine's swing marked
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const dpr = window.devicePixelRatio || 1;
+    const { width, height } = canvas.getBoundingClientRect();
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const x = (v: number) => ((v + 1) / 2) * width;
+    const y = (v: number) => height / 2 - (Math.max(-1.2, Math.min(1.2, v)) / 1.2) * (height / 2);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, y(0)); ctx.lineTo(width, y(0));
+    ctx.moveTo(x(0), 0); ctx.lineTo(x(0), height);
+    ctx.moveTo(x(-1), y(-1)); ctx.lineTo(x(1), y(1));
+    ctx.stroke();
+
+    const swing = Math.pow(10, level / 20);
+    ctx.setLineDash([2, 3]);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+    ctx.beginPath();
+    ctx.moveTo(x(-swing), 0); ctx.lineTo(x(-swing), height);
+    ctx.moveTo(x(swing), 0); ctx.lineTo(x(swing), height);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    for (let px = 0; px <= width; px++) {
+      const i = Math.round((px / width) * (curve.length - 1));
+      if (px === 0) ctx.moveTo(px, y(curve[i]));
+      else ctx.lineTo(px, y(curve[i]));
+    }
+    ctx.stroke();
+  }, [curve, level, color]);
+
+  const thdDb = analysis.thdN > 0 ? 20 * Math.log10(analysis.thdN / 100) : -Infinity;
+
+  return (
+    <div className="w-full h-full bg-[#080808] rounded-lg border border-white/5 flex items-stretch p-2 space-x-3 overflow-hidden">
+      <div className="flex flex-col justify-between w-28">
+        {SATURATION_MODES.map((m, i) => (
+          <button
+            key={m}
+            onClick={() => setInspected(m === moduleMode ? null : m)}
+            className={`flex items-center justify-between px-1.5 py-0.5 rounded text-[9px] font-mono transition-colors
+                ${m === mode ? 'bg-white/10 text-white' : 'text-neutral-500 hover:text-neutral-300'}
+            `}
+            title={m === moduleMode ? 'Current mode' : 'Inspect this mode'}
+          >
+            <span className="flex items-center space-x-1">
+              <span className="w-1 h-1 rounded-full" style={{ backgroundColor: m === moduleMode ? color : 'transparent' }} />
+              <span>{m}</span>
+            </span>
+            <span>{analyses[i].thdN.toFixed(analyses[i].thdN < 10 ? 2 : 1)}%</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 flex flex-col">
+        <div className="flex-1 flex items-end space-x-1">
+          {analysis.harmonics.map((db, i) => {
+            const order = i + 1;
+            const shown = db === null ? null : db + output;
+            return (
+              <div key={order} className="flex-1 h-full flex flex-col items-center justify-end" title={shown === null ? `H${order} above Nyquist` : `H${order} ${shown.toFixed(1)} dBFS`}>
+                <div
+                  className="w-full rounded-t"
+                  style={{
+                    height: `${shown === null ? 0 : Math.max(0, Math.min(1, (shown + RANGE_DB) / RANGE_DB)) * 100}%`,
+                    backgroundColor: order === 1 ? '#e5e5e5' : order % 2 === 0 ? color : '#22d3ee',
+                    opacity: order === 1 ? 0.5 : 0.9
+                  }}
+                />
+                <span className="text-[8px] font-mono text-neutral-600 mt-0.5">{shown === null ? '-' : `H${order}`}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex flex-col justify-between w-36 text-[9px] font-mono text-neutral-400">
+        <div className="flex justify-between"><span className="text-neutral-600">THD+N</span><span className="text-white">{analysis.thdN.toFixed(3)}% ({Number.isFinite(thdDb) ? thdDb.toFixed(1) : '-inf'} dB)</span></div>
+        <div className="flex justify-between">
+          <span className="text-neutral-600">Even / Odd</span>
+          <span><span style={{ color }}>{Math.round(analysis.evenShare * 100)}</span> / <span className="text-cyan-400">{Math.round((1 - analysis.evenShare) * 100)}</span>%</span>
+        </div>
+        <div className="flex justify-between"><span className="text-neutral-600">DC</span><span>{analysis.dc.toFixed(3)}</span></div>
+        <div className="flex justify-between items-center">
+          <span className="text-neutral-600">{Math.round(analysis.frequency)} Hz</span>
+          <select
+            value={levelIndex}
+            onChange={(e) => setLevelIndex(Number(e.target.value))}
+            className="bg-black/40 border border-white/10 rounded text-[9px] font-mono text-neutral-400 outline-none px-1"
+          >
+            {TEST_LEVELS.map((db, i) => <option key={db} value={i}>{db} dBFS</option>)}
+          </select>
+        </div>
+        <canvas ref={canvasRef} className="w-full h-12 bg-black/40 rounded" />
+      </div>
+    </div>
+  );
+};
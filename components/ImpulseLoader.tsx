@@ -0,0 +1,87 @@
+
+import React, { useRef, useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import { ImpulseRef } from '../types';
+import { audioEngine } from '../services/audioEngine';
+
+interface ImpulseLoaderProps {
+  impulse?: ImpulseRef;
+  color?: string;
+  onLoad: (impulse: ImpulseRef) => void;
+  onClear: () => void;
+}
+
+export const ImpulseLoader: React.FC<ImpulseLoaderProps> = ({
+  impulse, color = '#a855f7', onLoad, onClear
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isOver, setIsOver] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  // The library lives in the engine, so a restored session can reference an IR that is no longer decoded
+  const missing = impulse && !audioEngine.hasImpulse(impulse.id);
+
+  const load = async (file?: File) => {
+    if (!file) return;
+    setStatus('Decoding...');
+    try {
+      onLoad(await audioEngine.loadImpulse(file));
+      setStatus(null);
+    } catch (e) {
+      console.error(e);
+      setStatus('Unsupported file');
+    }
+  };
+
+  return (
+    <div
+      className={`w-full h-full flex items-center justify-between px-3 rounded border border-dashed transition-colors cursor-pointer
+        ${isOver ? 'bg-white/5' : 'bg-black/40'}
+      `}
+      style={{ borderColor: isOver ? color : 'rgba(255,255,255,0.1)' }}
+      onClick={() => inputRef.current?.click()}
+      onDragOver={(e) => {
+        // Only react to files so layout drags in the designer still pass through
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setIsOver(true);
+      }}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={(e) => {
+        if (!e.dataTransfer.files.length) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setIsOver(false);
+        load(e.dataTransfer.files[0]);
+      }}
+    >
+      <div className="flex items-center space-x-2 overflow-hidden">
+        <Upload size={12} style={{ color }} />
+        <div className="flex flex-col overflow-hidden">
+          <span className="text-[8px] font-bold uppercase text-neutral-500 tracking-wider">Impulse</span>
+          <span className="text-[10px] font-mono text-neutral-300 truncate">
+            {status || (impulse
+              ? `${impulse.name} (${impulse.duration.toFixed(2)}s)${missing ? ' - reload file' : ''}`
+              : 'Drop WAV/AIFF or click to load')}
+          </span>
+        </div>
+      </div>
+      {impulse && (
+        <button
+          onClick={(e) => { e.stopPropagation(); onClear(); }}
+          className="p-1 text-neutral-600 hover:text-red-500 transition-colors"
+        >
+          <X size={10} />
+        </button>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".wav,.aif,.aiff,audio/wav,audio/aiff,audio/x-aiff"
+        className="hidden"
+        onChange={(e) => { load(e.target.files?.[0]); e.target.value = ''; }}
+      />
+    </div>
+  );
+};
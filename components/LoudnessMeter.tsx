@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { audioEngine } from '../services/audioEngine';
+import { LoudnessSnapshot, SILENCE_LUFS } from '../services/loudness';
+
+interface LoudnessMeterProps {
+  bounce?: LoudnessSnapshot | null; // Measurement of the last offline render
+}
+
+const fmt = (value: number, unit: string) =>
+  value <= SILENCE_LUFS ? `-inf ${unit}` : `${value.toFixed(1)} ${unit}`;
+
+export const LoudnessMeter: React.FC<LoudnessMeterProps> = ({ bounce }) => {
+  const [live, setLive] = useState<LoudnessSnapshot | null>(null);
+
+  useEffect(() => audioEngine.subscribeLoudness(setLive), []);
+
+  const readout = (label: string, value: string, color = 'text-neutral-300') => (
+    <div className="flex flex-col items-center min-w-[64px]">
+      <span className="text-[8px] font-bold uppercase tracking-widest text-neutral-600">{label}</span>
+      <span className={`text-[11px] font-mono ${color}`}>{value}</span>
+    </div>
+  );
+
+  const momentary = live ? live.momentary : SILENCE_LUFS;
+  const correlation = live ? live.correlation : 0;
+  const truePeak = live ? live.truePeak : -120;
+
+  return (
+    <div className="h-10 bg-[#050505] border-t border-white/5 flex items-center px-6 space-x-4 select-none shrink-0">
+      {/* Momentary bar, -60..0 LUFS */}
+      <div className="w-32 h-2 bg-[#0a0a0a] rounded-full overflow-hidden border border-white/5">
+        <div
+          className="h-full transition-all duration-100"
+          style={{
+            width: `${Math.max(0, Math.min(100, ((momentary + 60) / 60) * 100))}%`,
+            backgroundColor: momentary > -9 ? '#ef4444' : momentary > -18 ? '#eab308' : '#22c55e'
+          }}
+        />
+      </div>
+
+      {readout('Momentary', fmt(momentary, 'LUFS'))}
+      {readout('Short', fmt(live ? live.shortTerm : SILENCE_LUFS, 'LUFS'))}
+      {readout('Integrated', fmt(live ? live.integrated : SILENCE_LUFS, 'LUFS'), 'text-cyan-400')}
+      {readout('Range', `${(live ? live.range : 0).toFixed(1)} LU`)}
+      {readout('True Peak', truePeak <= -120 ? '-inf dBTP' : `${truePeak.toFixed(1)} dBTP`, truePeak > -1 ? 'text-red-500' : 'text-neutral-300')}
+
+      {/* Correlation, -1 (out of phase) .. +1 (mono) */}
+      <div className="flex flex-col items-center">
+        <span className="text-[8px] font-bold uppercase tracking-widest text-neutral-600">Correlation</span>
+        <div className="w-24 h-2 bg-[#0a0a0a] rounded-full relative border border-white/5">
+          <div className="absolute top-0 bottom-0 left-1/2 w-px bg-white/10" />
+          <div
+            className="absolute top-0 bottom-0 w-1.5 rounded-full transition-all duration-100"
+            style={{ left: `calc(${((correlation + 1) / 2) * 100}% - 3px)`, backgroundColor: correlation < 0 ? '#ef4444' : '#22c55e' }}
+          />
+        </div>
+      </div>
+
+      <button onClick={() => audioEngine.resetLoudness()} title="Reset integrated, range and peak hold" className="p-1.5 text-neutral-600 hover:text-white transition-colors">
+        <RotateCcw size={12} />
+      </button>
+
+      {bounce && (
+        <div className="ml-auto flex items-center space-x-3 pl-4 border-l border-white/5">
+          <span className="text-[8px] font-bold uppercase tracking-widest text-neutral-600">Last Bounce</span>
+          <span className="text-[10px] font-mono text-neutral-400">
+            {fmt(bounce.integrated, 'LUFS')} · {bounce.range.toFixed(1)} LU · {bounce.truePeak.toFixed(1)} dBTP
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,295 @@
+import React, { useRef, useState } from 'react';
+import { GitBranch, GitMerge, RotateCcw, Trash2 } from 'lucide-react';
+import { PluginModuleState, RoutingGraph, RoutingNode, SplitMode } from '../types';
+import {
+  canConnect, createLinearGraph, DEFAULT_SPLIT_FREQ, getOutputPorts, removeGraphNode, SPLIT_MODES
+} from '../services/routing';
+
+interface RoutingGraphEditorProps {
+  graph: RoutingGraph;
+  modules: PluginModuleState[];
+  onChange: (graph: RoutingGraph) => void;
+}
+
+const NODE_W = 130;
+const NODE_H = 44;
+const CANVAS_H = 300;
+
+const generateId = () => Math.random().toString(36).substring(2, 9);
+
+const portY = (node: RoutingNode, port: number, count: number) =>
+  node.y + (NODE_H * (port + 1)) / (count + 1);
+
+export const RoutingGraphEditor: React.FC<RoutingGraphEditorProps> = ({ graph, modules, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [selection, setSelection] = useState<{ kind: 'node' | 'edge', id: string } | null>(null);
+  const [dragging, setDragging] = useState<{ id: string, dx: number, dy: number } | null>(null);
+  const [pending, setPending] = useState<{ from: string, port: number, x: number, y: number } | null>(null);
+
+  const toCanvas = (e: React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const nodeLabel = (node: RoutingNode) => {
+    if (node.kind === 'MODULE') {
+      const module = modules.find(m => m.id === node.id);
+      return module ? (module.title || module.type) : 'Missing';
+    }
+    if (node.kind === 'SPLIT') return `Split · ${(SPLIT_MODES.find(s => s.mode === node.splitMode) || SPLIT_MODES[0]).label}`;
+    return node.kind === 'MERGE' ? 'Merge' : node.kind;
+  };
+
+  const nodeColor = (node: RoutingNode) => {
+    if (node.kind === 'MODULE') return modules.find(m => m.id === node.id)?.color || '#525252';
+    if (node.kind === 'SPLIT' || node.kind === 'MERGE') return '#eab308';
+    return '#06b6d4';
+  };
+
+  const updateNode = (id: string, patch: Partial<RoutingNode>) =>
+    onChange({ ...graph, nodes: graph.nodes.map(n => n.id === id ? { ...n, ...patch } : n) });
+
+  const addRoutingNode = (kind: 'SPLIT' | 'MERGE') => {
+    const node: RoutingNode = {
+      id: `${kind.toLowerCase()}-${generateId()}`,
+      kind,
+      x: 40 + graph.nodes.length * 12,
+      y: 190,
+      ...(kind === 'SPLIT' ? { splitMode: 'PARALLEL' as SplitMode, splitFreq: DEFAULT_SPLIT_FREQ } : {})
+    };
+    onChange({ ...graph, nodes: [...graph.nodes, node] });
+    setSelection({ kind: 'node', id: node.id });
+  };
+
+  const connect = (to: string) => {
+    if (!pending) return;
+    if (canConnect(graph, pending.from, pending.port, to)) {
+      onChange({
+        ...graph,
+        edges: [...graph.edges, { id: `${pending.from}:${pending.port}->${to}-${generateId()}`, from: pending.from, fromPort: pending.port, to }]
+      });
+    }
+    setPending(null);
+  };
+
+  const deleteSelection = () => {
+    if (!selection) return;
+    if (selection.kind === 'edge') {
+      onChange({ ...graph, edges: graph.edges.filter(e => e.id !== selection.id) });
+    } else if (graph.nodes.find(n => n.id === selection.id)?.kind === 'MODULE') {
+      // Modules are owned by the chain, so here they only lose their wires
+      onChange({ ...graph, edges: graph.edges.filter(e => e.from !== selection.id && e.to !== selection.id) });
+    } else {
+      onChange(removeGraphNode(graph, selection.id));
+    }
+    setSelection(null);
+  };
+
+  const selectedNode = selection?.kind === 'node' ? graph.nodes.find(n => n.id === selection.id) : undefined;
+  const selectedEdge = selection?.kind === 'edge' ? graph.edges.find(e => e.id === selection.id) : undefined;
+  const width = Math.max(600, ...graph.nodes.map(n => n.x + NODE_W + 40));
+
+  return (
+    <div className="w-full bg-[#0a0a0a] border border-white/10 rounded-xl overflow-hidden" onClick={(e) => e.stopPropagation()}>
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-white/5">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-neutral-500">Routing Graph</span>
+        <div className="flex items-center space-x-2">
+          <button onClick={() => addRoutingNode('SPLIT')} className="flex items-center space-x-1 px-2 py-1 rounded bg-white/5 text-neutral-400 hover:text-white text-[9px] font-bold uppercase">
+            <GitBranch size={10} /> <span>Split</span>
+          </button>
+          <button onClick={() => addRoutingNode('MERGE')} className="flex items-center space-x-1 px-2 py-1 rounded bg-white/5 text-neutral-400 hover:text-white text-[9px] font-bold uppercase">
+            <GitMerge size={10} /> <span>Merge</span>
+          </button>
+          <button onClick={() => { onChange(createLinearGraph(modules)); setSelection(null); }} title="Reset to the linear chain" className="p-1 rounded text-neutral-500 hover:text-white">
+            <RotateCcw size={12} />
+          </button>
+        </div>
+      </div>
+
+      {/* Canvas */}
+      <div className="overflow-x-auto custom-scrollbar">
+        <svg
+          ref={svgRef}
+          width={width}
+          height={CANVAS_H}
+          className="block select-none"
+          onMouseMove={(e) => {
+            const p = toCanvas(e);
+            if (dragging) {
+              updateNode(dragging.id, {
+                x: Math.max(0, p.x - dragging.dx),
+                y: Math.max(0, Math.min(CANVAS_H - NODE_H, p.y - dragging.dy))
+              });
+            }
+            if (pending) setPending({ ...pending, x: p.x, y: p.y });
+          }}
+          onMouseUp={() => { setDragging(null); setPending(null); }}
+          onMouseLeave={() => { setDragging(null); setPending(null); }}
+          onClick={() => setSelection(null)}
+        >
+          {/* Edges */}
+          {graph.edges.map(edge => {
+            const from = graph.nodes.find(n => n.id === edge.from);
+            const to = graph.nodes.find(n => n.id === edge.to);
+            if (!from || !to) return null;
+            const ports = getOutputPorts(from);
+            const x1 = from.x + NODE_W;
+            const y1 = portY(from, Math.min(edge.fromPort || 0, ports.length - 1), ports.length);
+            const x2 = to.x;
+            const y2 = to.y + NODE_H / 2;
+            const bend = Math.max(30, Math.abs(x2 - x1) / 2);
+            const path = `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+            const isSelected = selection?.kind === 'edge' && selection.id === edge.id;
+            return (
+              <g key={edge.id} onClick={(e) => { e.stopPropagation(); setSelection({ kind: 'edge', id: edge.id }); }} className="cursor-pointer">
+                <path d={path} stroke="transparent" strokeWidth={10} fill="none" />
+                <path d={path} stroke={isSelected ? '#fff' : '#525252'} strokeWidth={isSelected ? 2 : 1.5} fill="none" />
+                {!!edge.gain && (
+                  <text x={(x1 + x2) / 2} y={(y1 + y2) / 2 - 4} textAnchor="middle" className="fill-neutral-400 font-mono" fontSize={9}>
+                    {edge.gain > 0 ? '+' : ''}{edge.gain.toFixed(1)} dB
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {pending && (() => {
+            const from = graph.nodes.find(n => n.id === pending.from);
+            if (!from) return null;
+            const ports = getOutputPorts(from);
+            return (
+              <line
+                x1={from.x + NODE_W} y1={portY(from, pending.port, ports.length)}
+                x2={pending.x} y2={pending.y}
+                stroke="#06b6d4" strokeWidth={1.5} strokeDasharray="4 3"
+              />
+            );
+          })()}
+
+          {/* Nodes */}
+          {graph.nodes.map(node => {
+            const color = nodeColor(node);
+            const ports = getOutputPorts(node);
+            const bypassed = node.kind === 'MODULE' && modules.find(m => m.id === node.id)?.enabled === false;
+            const isSelected = selection?.kind === 'node' && selection.id === node.id;
+            return (
+              <g
+                key={node.id}
+                opacity={bypassed ? 0.45 : 1}
+                onMouseUp={(e) => { if (pending) { e.stopPropagation(); connect(node.id); } }}
+              >
+                <rect
+                  x={node.x} y={node.y} width={NODE_W} height={NODE_H} rx={6}
+                  fill="#111" stroke={isSelected ? '#fff' : color} strokeWidth={isSelected ? 2 : 1}
+                  className="cursor-move"
+                  onMouseDown={(e) => {
+                    e.stopPropagation();
+                    const p = toCanvas(e);
+                    setDragging({ id: node.id, dx: p.x - node.x, dy: p.y - node.y });
+                  }}
+                  onClick={(e) => { e.stopPropagation(); setSelection({ kind: 'node', id: node.id }); }}
+                />
+                <text x={node.x + 10} y={node.y + NODE_H / 2 + 3} fontSize={10} className="fill-neutral-200 font-bold pointer-events-none">
+                  {nodeLabel(node).slice(0, 18)}
+                </text>
+                {bypassed && (
+                  <text x={node.x + 10} y={node.y + NODE_H - 5} fontSize={7} className="fill-neutral-500 pointer-events-none uppercase">Bypassed</text>
+                )}
+
+                {/* Input port */}
+                {node.kind !== 'INPUT' && (
+                  <circle cx={node.x} cy={node.y + NODE_H / 2} r={5} fill="#111" stroke={color} strokeWidth={1.5} />
+                )}
+
+                {/* Output ports */}
+                {ports.map((label, i) => (
+                  <g key={i}>
+                    <circle
+                      cx={node.x + NODE_W} cy={portY(node, i, ports.length)} r={5}
+                      fill={color} className="cursor-crosshair"
+                      onMouseDown={(e) => {
+                        e.stopPropagation();
+                        const p = toCanvas(e);
+                        setPending({ from: node.id, port: i, x: p.x, y: p.y });
+                      }}
+                    />
+                    {ports.length > 1 && (
+                      <text x={node.x + NODE_W - 9} y={portY(node, i, ports.length) + 3} textAnchor="end" fontSize={7} className="fill-neutral-500 pointer-events-none uppercase">
+                        {label}
+                      </text>
+                    )}
+                  </g>
+                ))}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      {/* Inspector */}
+      <div className="flex items-center space-x-4 px-4 py-2 border-t border-white/5 min-h-[40px] text-[10px]">
+        {!selection && (
+          <span className="text-neutral-600">Drag from an output port to an input to connect. Click a node or wire to edit it.</span>
+        )}
+
+        {selectedNode && selectedNode.kind === 'SPLIT' && (
+          <>
+            <select
+              value={selectedNode.splitMode || 'PARALLEL'}
+              onChange={(e) => {
+                const splitMode = e.target.value as SplitMode;
+                const portCount = SPLIT_MODES.find(s => s.mode === splitMode)!.ports.length;
+                // Wires from ports the new mode doesn't have fall back to the first port
+                onChange({
+                  nodes: graph.nodes.map(n => n.id === selectedNode.id ? { ...n, splitMode } : n),
+                  edges: graph.edges.map(e => e.from === selectedNode.id && (e.fromPort || 0) >= portCount ? { ...e, fromPort: 0 } : e)
+                });
+              }}
+              className="bg-black border border-white/10 rounded px-2 py-1 text-neutral-300 outline-none"
+            >
+              {SPLIT_MODES.map(s => <option key={s.mode} value={s.mode}>{s.label}</option>)}
+            </select>
+            {selectedNode.splitMode === 'FREQ' && (
+              <label className="flex items-center space-x-2 text-neutral-500">
+                <span>Crossover</span>
+                <input
+                  type="number" min={20} max={20000}
+                  value={selectedNode.splitFreq || DEFAULT_SPLIT_FREQ}
+                  onChange={(e) => updateNode(selectedNode.id, { splitFreq: Math.max(20, Math.min(20000, Number(e.target.value) || DEFAULT_SPLIT_FREQ)) })}
+                  className="w-20 bg-black border border-white/10 rounded px-2 py-1 font-mono text-neutral-300 outline-none"
+                />
+                <span>Hz</span>
+              </label>
+            )}
+          </>
+        )}
+
+        {selectedNode && selectedNode.kind === 'MODULE' && (
+          <span className="text-neutral-500">{nodeLabel(selectedNode)}: delete disconnects its wires, the module itself stays in the chain.</span>
+        )}
+
+        {selectedEdge && (
+          <label className="flex items-center space-x-2 text-neutral-500">
+            <span>{graph.nodes.find(n => n.id === selectedEdge.to)?.kind === 'MERGE' ? 'Input gain' : 'Gain'}</span>
+            <input
+              type="range" min={-24} max={12} step={0.5}
+              value={selectedEdge.gain || 0}
+              onChange={(e) => onChange({
+                ...graph,
+                edges: graph.edges.map(edge => edge.id === selectedEdge.id ? { ...edge, gain: Number(e.target.value) } : edge)
+              })}
+            />
+            <span className="font-mono text-neutral-300 w-14">{(selectedEdge.gain || 0).toFixed(1)} dB</span>
+          </label>
+        )}
+
+        {selection && (selectedEdge || (selectedNode && selectedNode.kind !== 'INPUT' && selectedNode.kind !== 'OUTPUT')) && (
+          <button onClick={deleteSelection} className="ml-auto p-1 text-neutral-600 hover:text-red-500 transition-colors">
+            <Trash2 size={12} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useRef, useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import { PluginModuleState } from '../types';
+import { audioEngine } from '../services/audioEngine';
+import { computeMatchCurve, fitMatchBands, getMatchAmount, isMatchFilterOn, MATCH_SMOOTHING } from '../services/spectralMatch';
+import { Knob } from './Knob';
+import { Switch } from './Switch';
+
+interface SpectralMatchPanelProps {
+  module: PluginModuleState;
+  sourceUrl: string | null;
+  color?: string;
+  onChangeParam: (paramId: string, val: number) => void;
+  onUpdateModule: (updates: Partial<PluginModuleState>) => void;
+}
+
+// Reference match for the parametric EQ. The reference is decoded here and only its curve is
+// kept with the module; the source is the file loaded in the transport. Fitting rewrites the
+// bands at the current amount, the match filter applies the full-resolution curve through the
+// linear-phase FIR (turning that mode on) and follows the amount live.
+export const SpectralMatchPanel: React.FC<SpectralMatchPanelProps> = ({
+  module, sourceUrl, color = '#3b82f6', onChangeParam, onUpdateModule
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [reference, setReference] = useState<{ name: string; buffer: AudioBuffer } | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const match = module.spectralMatch;
+  const params = module.params;
+  const smoothing = Math.round(params.matchSmoothing ?? 1);
+
+  const loadReference = async (file?: File) => {
+    if (!file) return;
+    setStatus('Decoding...');
+    try {
+      setReference({ name: file.name, buffer: await audioEngine.decodeFile(file) });
+      setStatus(null);
+    } catch (e) {
+      console.error(e);
+      setStatus('Unsupported file');
+    }
+  };
+
+  const analyze = async (smoothingIndex = smoothing) => {
+    if (!reference || !sourceUrl) return;
+    setStatus('Analyzing...');
+    try {
+      const source = await audioEngine.decodeSource(sourceUrl);
+      const curve = computeMatchCurve(source, reference.buffer, smoothingIndex);
+      // Only the changed keys: params may have been edited while decoding
+      onUpdateModule({ spectralMatch: { reference: reference.name, curve } });
+      onChangeParam('matchSmoothing', smoothingIndex);
+      setStatus(null);
+    } catch (e) {
+      console.error(e);
+      setStatus('Analysis failed');
+    }
+  };
+
+  // Bands and filter would apply the match twice, so fitting turns the filter off
+  const fitBands = () => {
+    if (!match) return;
+    onUpdateModule({ params: { ...fitMatchBands(params, match.curve, getMatchAmount(params), audioEngine.getContext().sampleRate), matchFilter: 0 }, selectedBand: 1 });
+  };
+
+  const setFilter = (on: number) => {
+    onUpdateModule({ params: { ...params, matchFilter: on, phaseMode: on ? 1 : params.phaseMode } });
+  };
+
+  const hint = status
+    || (!reference ? (match ? `Matched to ${match.reference}` : 'Drop a reference track or click to load')
+    : !sourceUrl ? `${reference.name} - load a source to match`
+    : reference.name);
+
+  return (
+    <div className="w-full h-full bg-[#080808] rounded-lg border border-white/5 relative overflow-hidden flex items-center justify-between px-4 space-x-4">
+      <div
+        className="flex-1 h-2/3 flex items-center space-x-2 px-3 rounded border border-dashed border-white/10 bg-black/40 cursor-pointer overflow-hidden"
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => {
+          // Only react to files so layout drags in the designer still pass through
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          e.stopPropagation();
+        }}
+        onDrop={(e) => {
+          if (!e.dataTransfer.files.length) return;
+          e.preventDefault();
+          e.stopPropagation();
+          loadReference(e.dataTransfer.files[0]);
+        }}
+      >
+        <Upload size={12} style={{ color }} />
+        <div className="flex flex-col overflow-hidden">
+          <span className="text-[8px] font-bold uppercase text-neutral-500 tracking-wider">Reference</span>
+          <span className="text-[10px] font-mono text-neutral-300 truncate">{hint}</span>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="audio/*"
+          className="hidden"
+          onChange={(e) => { loadReference(e.target.files?.[0]); e.target.value = ''; }}
+        />
+      </div>
+
+      <div className="flex flex-col items-center space-y-1">
+        <select
+          value={smoothing}
+          onChange={(e) => {
+            const index = Number(e.target.value);
+            if (reference && sourceUrl) analyze(index);
+            else onChangeParam('matchSmoothing', index);
+          }}
+          className="bg-black/40 border border-white/10 rounded text-[9px] font-mono text-neutral-400 outline-none px-1 py-0.5"
+        >
+          {MATCH_SMOOTHING.map((label, index) => <option key={label} value={index}>{label}</option>)}
+        </select>
+        <button
+          onClick={() => analyze()}
+          disabled={!reference || !sourceUrl || status !== null}
+          className="px-3 py-1 rounded bg-white/5 hover:bg-white/10 text-[9px] font-bold uppercase tracking-widest text-neutral-300 transition-colors disabled:opacity-30"
+        >
+          Match
+        </button>
+      </div>
+
+      <div className={`flex items-center space-x-3 transition-opacity ${match ? '' : 'opacity-40 pointer-events-none'}`}>
+        <Knob label="Amount" value={getMatchAmount(params) * 100} min={0} max={100} unit="%" size={40} variant="tech" color={color} onChange={(val) => onChangeParam('matchAmount', val)} />
+        <button
+          onClick={fitBands}
+          className="px-3 py-1 rounded bg-white/5 hover:bg-white/10 text-[9px] font-bold uppercase tracking-widest text-neutral-300 transition-colors"
+        >
+          Fit Bands
+        </button>
+        <div className="w-16 flex flex-col items-center">
+          <Switch label="FIR Filter" value={isMatchFilterOn(params) ? 1 : 0} color={color} style="classic" onChange={setFilter} />
+        </div>
+        <button
+          onClick={() => onUpdateModule({ spectralMatch: undefined, params: { ...params, matchFilter: 0 } })}
+          className="p-1 text-neutral-600 hover:text-red-500 transition-colors"
+        >
+          <X size={10} />
+        </button>
+      </div>
+    </div>
+  );
+};
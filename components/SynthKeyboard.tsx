@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { audioEngine } from '../services/audioEngine';
+import { KEYBOARD_NOTES } from '../services/synth';
+
+interface SynthKeyboardProps {
+  octave: number;
+  color?: string;
+  onOctaveChange: (octave: number) => void;
+}
+
+const OCTAVES = 2;
+const BLACK_KEYS = [1, 3, 6, 8, 10];
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+// Computer key shown on each piano key, by semitone from the lowest C
+const KEY_LABELS = Object.fromEntries(Object.entries(KEYBOARD_NOTES).map(([key, offset]) => [offset, key.toUpperCase()]));
+
+// Two octaves from C of the module's octave, played with the mouse or the computer keyboard.
+// Lit keys come from the engine, so notes played from the keyboard show up too.
+export const SynthKeyboard: React.FC<SynthKeyboardProps> = ({ octave, color = '#f59e0b', onOctaveChange }) => {
+  const [active, setActive] = useState<number[]>([]);
+  const mouseNote = useRef<number | null>(null);
+  const base = 12 * (Math.round(octave) + 1);
+
+  useEffect(() => audioEngine.subscribeNotes(setActive), []);
+
+  const press = (note: number) => {
+    if (mouseNote.current === note) return;
+    release();
+    mouseNote.current = note;
+    audioEngine.noteOn(note);
+  };
+
+  const release = () => {
+    if (mouseNote.current === null) return;
+    audioEngine.noteOff(mouseNote.current);
+    mouseNote.current = null;
+  };
+
+  useEffect(() => {
+    window.addEventListener('mouseup', release);
+    return () => {
+      window.removeEventListener('mouseup', release);
+      release();
+    };
+  }, []);
+
+  const offsets = Array.from({ length: OCTAVES * 12 + 1 }, (_, i) => i);
+  const whites = offsets.filter(i => !BLACK_KEYS.includes(i % 12));
+  const whiteWidth = 100 / whites.length;
+
+  const keyHandlers = (note: number) => ({
+    onMouseDown: (e: React.MouseEvent) => { e.preventDefault(); e.stopPropagation(); press(note); },
+    // Gliding across keys with the button held plays each one
+    onMouseEnter: (e: React.MouseEvent) => { if (e.buttons === 1 && mouseNote.current !== null) press(note); }
+  });
+
+  return (
+    <div className="w-full h-full bg-[#080808] rounded-lg border border-white/5 flex items-stretch p-2 space-x-2 select-none">
+      <div className="flex flex-col items-center justify-center space-y-1">
+        <button onClick={() => onOctaveChange(octave + 1)} className="text-neutral-500 hover:text-white" title="Octave up (X)">
+          <ChevronUp size={12} />
+        </button>
+        <span className="text-[9px] font-mono font-bold" style={{ color }}>C{Math.round(octave)}</span>
+        <button onClick={() => onOctaveChange(octave - 1)} className="text-neutral-500 hover:text-white" title="Octave down (Z)">
+          <ChevronDown size={12} />
+        </button>
+      </div>
+      <div className="relative flex-1">
+        {whites.map((offset, i) => {
+          const note = base + offset;
+          const lit = active.includes(note);
+          return (
+            <div
+              key={offset}
+              {...keyHandlers(note)}
+              className="absolute top-0 bottom-0 border border-black/60 rounded-b flex flex-col items-center justify-end pb-1 cursor-pointer"
+              style={{ left: `${i * whiteWidth}%`, width: `${whiteWidth}%`, background: lit ? color : '#d4d4d4' }}
+            >
+              <span className="text-[8px] font-mono text-neutral-700">{KEY_LABELS[offset] || (offset % 12 === 0 ? `C${Math.round(octave) + offset / 12}` : '')}</span>
+            </div>
+          );
+        })}
+        {offsets.filter(i => BLACK_KEYS.includes(i % 12)).map(offset => {
+          const note = base + offset;
+          const lit = active.includes(note);
+          const left = whites.filter(w => w < offset).length * whiteWidth;
+          return (
+            <div
+              key={offset}
+              {...keyHandlers(note)}
+              className="absolute top-0 h-3/5 rounded-b flex items-end justify-center pb-0.5 cursor-pointer z-10"
+              style={{ left: `${left - whiteWidth * 0.3}%`, width: `${whiteWidth * 0.6}%`, background: lit ? color : '#171717' }}
+              title={NOTE_NAMES[offset % 12]}
+            >
+              <span className="text-[7px] font-mono text-neutral-500">{KEY_LABELS[offset] || ''}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -9,10 +9,12 @@ interface TransportProps {
   onPlayPause: () => void;
   onSeek: (time: number) => void;
   onRestart: () => void;
+  bpm?: number;
+  onBpmChange?: (bpm: number) => void;
 }
 
 export const Transport: React.FC<TransportProps> = ({
-  isPlaying, currentTime, duration, onPlayPause, onSeek, onRestart
+  isPlaying, currentTime, duration, onPlayPause, onSeek, onRestart, bpm, onBpmChange
 }) => {
   // Format time helper
   const fmt = (t: number) => {
@@ -65,6 +67,23 @@ export const Transport: React.FC<TransportProps> = ({
           
           <span className="text-[10px] font-mono text-neutral-500 w-8">{fmt(duration)}</span>
        </div>
+
+       {/* Project Tempo */}
+       {bpm !== undefined && onBpmChange && (
+          <div className="flex items-center space-x-2">
+             <input
+                type="number"
+                min={20} max={300} step={1}
+                value={bpm}
+                onChange={(e) => {
+                   const val = Number(e.target.value);
+                   if (val >= 20 && val <= 300) onBpmChange(val);
+                }}
+                className="w-14 bg-[#0a0a0a] border border-white/5 rounded px-2 py-1 text-[10px] font-mono text-cyan-400 outline-none focus:border-cyan-500/50"
+             />
+             <span className="text-[9px] font-bold uppercase text-neutral-600 tracking-widest">BPM</span>
+          </div>
+       )}
     </div>
   );
 };
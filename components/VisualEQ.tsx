@@ -1,9 +1,18 @@
 
 
 import React, { useEffect, useRef, useMemo, useState, useCallback } from 'react';
+import { X } from 'lucide-react';
 import { PluginModuleState, PluginType, PluginLayer } from '../types';
 import { audioEngine } from '../services/audioEngine';
 import { BAND_COLORS } from '../constants';
+import { addBand, getBandCount, getBands, MAX_BANDS, removeBand } from '../services/bands';
+import { hasDynamicBands, isDynamicBand } from '../services/dynamicEq';
+import { CUT_SLOPES, EQ_SHAPES, designStages, getBandShape, getBandStagesFromParams, getCutSlope, isCutShape, shapeHasGain, stagesResponse } from '../services/eqShapes';
+import { EQ_CHANNEL_COLORS, EQ_CHANNEL_TAGS, EQ_CHANNELS, getBandChannel } from '../services/eqChannels';
+import { getFirLatency, getFirLength, isLinearPhase } from '../services/linearPhase';
+import { getMatchAmount, getMatchFilterCurve, matchGainAt } from '../services/spectralMatch';
+import { ChainMeasurement, measurementAt, TEST_SIGNALS } from '../services/measurement';
+import { crossoverBandMagnitude, getCrossoverBandCenter, getCrossoverOrder, getCrossovers, isCrossoverMode } from '../services/crossover';
 
 interface VisualEQProps {
   module: PluginModuleState;
@@ -19,6 +28,15 @@ const minLog = Math.log10(minFreq);
 const maxLog = Math.log10(maxFreq);
 const scale = (maxLog - minLog);
 
+const SHAPE_MENU_WIDTH = 210;
+const SHAPE_MENU_HEIGHT = 180;
+
+// Handle height on the EQ layer; shapes without gain (cuts, notch, band pass, all pass) sit at 0 dB
+const getEqHandleGain = (params: Record<string, number>, band: number) => {
+    const gain = params[`b${band}Gain`];
+    return shapeHasGain(getBandShape(params, band)) && typeof gain === 'number' && Number.isFinite(gain) ? gain : 0;
+};
+
 const getX = (freq: number, width: number) => {
     if (!width) return 0;
     const f = Math.max(minFreq, Math.min(maxFreq, freq));
@@ -64,13 +82,24 @@ const getBandFreq = (layer: PluginLayer, index: number, params: any, module: any
         const defaults = [60, 130, 300, 800, 2000, 5000, 10000];
         return defaults[index] || 10000;
     }
+    // Multiband crossover bands are positioned by their passband, not a centre frequency
+    if (layer === PluginLayer.DYNAMICS && module.type === PluginType.MULTIBAND && isCrossoverMode(params)) {
+        return getCrossoverBandCenter(getCrossovers(params, getBandCount(params)), index);
+    }
     return safeParam(params[`b${band}Freq`], 1000);
 };
 
+// Layers whose handles are the module's bands (everything but width and modulation)
+const isBandLayer = (layer: PluginLayer) => layer !== PluginLayer.IMAGER && layer !== PluginLayer.MODULATION;
+
+const isCrossoverLayer = (layer: PluginLayer, module: PluginModuleState) =>
+    layer === PluginLayer.DYNAMICS && module.type === PluginType.MULTIBAND && isCrossoverMode(module.params);
+
 export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLayerChange, onUpdateModule }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const draggingRef = useRef<number | null>(null);
+  const draggingXoverRef = useRef<number | null>(null);
   
   const { params, type, nestedModules, activeLayer, id: moduleId } = module;
   
@@ -89,6 +118,53 @@ export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLay
   const onUpdateModuleRef = useRef(onUpdateModule);
   onUpdateModuleRef.current = onUpdateModule;
 
+  // Phase overlay comparing the minimum- and linear-phase modes of the parametric EQ
+  const [showPhase, setShowPhase] = useState(false);
+  const showPhaseRef = useRef(showPhase);
+  showPhaseRef.current = showPhase;
+
+  // Spectrum split into its Mid and Side parts, for setting up M/S bands
+  const [showMidSide, setShowMidSide] = useState(false);
+  const showMidSideRef = useRef(showMidSide);
+  showMidSideRef.current = showMidSide;
+
+  // Measured response of this module (or the whole chain) from an offline test-signal render,
+  // drawn over the predicted curve until cleared
+  const [measurement, setMeasurement] = useState<ChainMeasurement | null>(null);
+  const measurementRef = useRef(measurement);
+  measurementRef.current = measurement;
+  const [measureSignal, setMeasureSignal] = useState(0);
+  const [measureScope, setMeasureScope] = useState<ChainMeasurement['scope']>('MODULE');
+  const [measuring, setMeasuring] = useState(false);
+
+  const measure = async () => {
+      setMeasuring(true);
+      try {
+          setMeasurement(await audioEngine.measureChain(measureSignal, measureScope === 'MODULE' ? moduleRef.current : null));
+      } catch (e) {
+          console.error(e);
+      }
+      setMeasuring(false);
+  };
+
+  // Shape menu of a parametric EQ band, opened by right-clicking its handle
+  const [shapeMenu, setShapeMenu] = useState<{ band: number; x: number; y: number } | null>(null);
+  const shapeMenuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+      if (!shapeMenu) return;
+      const close = (e: Event) => {
+          if (e instanceof KeyboardEvent ? e.key === 'Escape' : !shapeMenuRef.current?.contains(e.target as Node)) setShapeMenu(null);
+      };
+      // Capture phase, so clicks the canvas stops from propagating still close the menu
+      window.addEventListener('pointerdown', close, true);
+      window.addEventListener('keydown', close);
+      return () => {
+          window.removeEventListener('pointerdown', close, true);
+          window.removeEventListener('keydown', close);
+      };
+  }, [shapeMenu]);
+
   // Determine Default Layer correctly
   const isHybrid = type === PluginType.HYBRID_EQ_DYN;
   const isMultiband = type === PluginType.MULTIBAND;
@@ -141,7 +217,7 @@ export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLay
   }, []);
   
   const filters = useMemo(() => {
-    return Array.from({ length: 7 }).map((_, i) => {
+    return Array.from({ length: MAX_BANDS }).map((_, i) => {
         const f = ctxMock.createBiquadFilter();
         if (i === 0) f.type = 'lowshelf';
         else if (i === 6) f.type = 'highshelf';
@@ -175,6 +251,9 @@ export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLay
     let magResponse: Float32Array;
     let phaseResponse: Float32Array;
     let curvePoints: Float32Array;
+    let phasePoints: Float32Array;
+    // The EQ curve is designed at the engine's rate, like the bands themselves
+    const eqRate = audioEngine.getContext().sampleRate;
     
     // Data arrays for Vectorscope
     const { l: analyzerL, r: analyzerR } = audioEngine.getStereoAnalyzers();
@@ -258,6 +337,7 @@ export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLay
           magResponse = new Float32Array(widthInt);
           phaseResponse = new Float32Array(widthInt);
           curvePoints = new Float32Array(widthInt);
+          phasePoints = new Float32Array(widthInt);
           for (let i = 0; i < widthInt; i++) {
               frequencies[i] = getFreqFromX(i, width);
           }
@@ -266,6 +346,8 @@ export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLay
       const currentParams = paramsRef.current;
       const currentModule = moduleRef.current;
       const safeParam = (val: any, def: number) => (typeof val === 'number' && Number.isFinite(val) ? val : def);
+      const bands = getBands(currentParams);
+      const bandFilters = filters.slice(0, bands.length);
       const analyzer = audioEngine.getAnalyzer();
       const bufferLength = analyzer.frequencyBinCount;
       const dataArray = new Uint8Array(bufferLength);
@@ -291,23 +373,43 @@ export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLay
       ctx.stroke();
 
       // Spectrum
-      analyzer.getByteFrequencyData(dataArray);
-      ctx.fillStyle = 'rgba(63, 63, 70, 0.15)';
-      ctx.beginPath();
-      ctx.moveTo(0, height);
       const sampleRate = 44100;
       const nyquist = sampleRate / 2;
-
-      for (let x = 0; x < width; x += 2) {
-          const freq = getFreqFromX(x, width);
-          const fraction = freq / nyquist;
-          const index = Math.floor(fraction * bufferLength);
-          const val = dataArray[index] || 0;
-          const h = (val / 255) * height * 0.85;
-          ctx.lineTo(x, height - h);
+      const drawSpectrum = (source: AnalyserNode, fill: string) => {
+          source.getByteFrequencyData(dataArray);
+          ctx.fillStyle = fill;
+          ctx.beginPath();
+          ctx.moveTo(0, height);
+          for (let x = 0; x < width; x += 2) {
+              const freq = getFreqFromX(x, width);
+              const fraction = freq / nyquist;
+              const index = Math.floor(fraction * bufferLength);
+              const val = dataArray[index] || 0;
+              const h = (val / 255) * height * 0.85;
+              ctx.lineTo(x, height - h);
+          }
+          ctx.lineTo(width, height);
+          ctx.fill();
+      };
+      const midSide = showMidSideRef.current && currentModule.type === PluginType.VISUAL_EQ;
+      if (midSide) {
+          const { m, s } = audioEngine.getMidSideAnalyzers();
+          drawSpectrum(m, EQ_CHANNEL_COLORS[1] + '26');
+          drawSpectrum(s, EQ_CHANNEL_COLORS[2] + '26');
+          ctx.font = '8px Inter';
+          ctx.textAlign = 'left';
+          ctx.fillStyle = EQ_CHANNEL_COLORS[1];
+          ctx.fillText('MID', 8, height - 20);
+          ctx.fillStyle = EQ_CHANNEL_COLORS[2];
+          ctx.fillText('SIDE', 8, height - 8);
+      } else {
+          drawSpectrum(analyzer, 'rgba(63, 63, 70, 0.15)');
       }
-      ctx.lineTo(width, height);
-      ctx.fill();
+
+      // Parametric EQ bands on a single channel get their own curves below; the main curve is
+      // what every channel gets
+      const isParametric = currentModule.type === PluginType.VISUAL_EQ;
+      const mainBands = isParametric ? bands.filter(band => getBandChannel(currentParams, band) === 0) : bands;
 
       // Draw EQ Curves
       availableLayers.forEach(layer => {
@@ -317,7 +419,7 @@ export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLay
           const config = getLayerConfig(layer);
 
           // Configure Filter States from params
-          filters.forEach((filter, i) => {
+          bandFilters.forEach((filter, i) => {
               const band = i + 1;
               const freq = getBandFreq(layer, i, currentParams, currentModule);
               let Q = safeParam(currentParams[`b${band}Q`], 1.0);
@@ -352,13 +454,24 @@ export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLay
 
           // SPECIAL CASE: Multiband Dynamics Layer - Draw separate curves per band
           if (isMultiband && layer === PluginLayer.DYNAMICS) {
-              filters.forEach((filter, i) => {
-                   filter.getFrequencyResponse(frequencies, magResponse, phaseResponse);
-                   
-                   // Calculate dB for this specific filter only
-                   for(let k=0; k < widthInt; k++) {
-                       const mag = magResponse[k] < 0.0001 ? 0.0001 : magResponse[k];
-                       curvePoints[k] = 20 * Math.log10(mag);
+              const crossoverMode = isCrossoverMode(currentParams);
+              const crossovers = getCrossovers(currentParams, getBandCount(currentParams));
+              const order = getCrossoverOrder(currentParams);
+
+              bandFilters.forEach((filter, i) => {
+                   if (crossoverMode) {
+                       for (let k = 0; k < widthInt; k++) {
+                           const mag = Math.max(0.0001, crossoverBandMagnitude(frequencies[k], i, crossovers, order));
+                           curvePoints[k] = 20 * Math.log10(mag);
+                       }
+                   } else {
+                       filter.getFrequencyResponse(frequencies, magResponse, phaseResponse);
+                       
+                       // Calculate dB for this specific filter only
+                       for(let k=0; k < widthInt; k++) {
+                           const mag = magResponse[k] < 0.0001 ? 0.0001 : magResponse[k];
+                           curvePoints[k] = 20 * Math.log10(mag);
+                       }
                    }
 
                    const bandColor = BAND_COLORS[i];
@@ -393,19 +506,57 @@ export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLay
                    ctx.stroke();
                    ctx.restore();
               });
+
+              // Crossover split lines with drag grips
+              if (crossoverMode) {
+                  crossovers.forEach((freq, j) => {
+                      const x = getX(freq, width);
+                      const isDragged = draggingXoverRef.current === j;
+                      ctx.save();
+                      ctx.strokeStyle = isDragged ? '#ffffff' : 'rgba(255, 255, 255, 0.25)';
+                      ctx.lineWidth = 1;
+                      ctx.setLineDash([3, 3]);
+                      ctx.beginPath();
+                      ctx.moveTo(x, 0);
+                      ctx.lineTo(x, height);
+                      ctx.stroke();
+                      ctx.setLineDash([]);
+                      ctx.fillStyle = isDragged ? '#ffffff' : '#52525b';
+                      ctx.fillRect(x - 3, 4, 6, 12);
+                      ctx.font = '8px Inter';
+                      ctx.textAlign = 'center';
+                      ctx.fillText(freq >= 1000 ? `${(freq / 1000).toFixed(1)}k` : `${Math.round(freq)}`, x, 26);
+                      ctx.restore();
+                  });
+              }
               return; // Skip standard summing logic
           }
 
-          // Standard Logic: Sum curves
+          // Standard Logic: Sum curves. The EQ layer comes from the engine's band designer, so
+          // every shape and slope is drawn exactly as it runs.
           curvePoints.fill(0);
-          filters.forEach(filter => {
-              filter.getFrequencyResponse(frequencies, magResponse, phaseResponse);
-              for(let i=0; i < widthInt; i++) {
-                  const mag = magResponse[i] < 0.0001 ? 0.0001 : magResponse[i];
-                  const db = 20 * Math.log10(mag);
-                  curvePoints[i] += db;
+          phasePoints.fill(0);
+          if (layer === PluginLayer.EQ) {
+              const coeffs = designStages(mainBands.flatMap(band => getBandStagesFromParams(currentParams, band)), eqRate);
+              // The match filter only runs inside the linear-phase FIR
+              const match = isParametric && isLinearPhase(currentParams) ? getMatchFilterCurve(currentModule) : null;
+              const matchAmount = getMatchAmount(currentParams);
+              for (let i = 0; i < widthInt; i++) {
+                  const response = stagesResponse(coeffs, frequencies[i], eqRate);
+                  curvePoints[i] = 20 * Math.log10(Math.max(0.0001, response.mag)) + (match ? matchGainAt(match, frequencies[i]) * matchAmount : 0);
+                  phasePoints[i] = response.phase;
               }
-          });
+          } else {
+              bandFilters.forEach(filter => {
+                  filter.getFrequencyResponse(frequencies, magResponse, phaseResponse);
+                  for(let i=0; i < widthInt; i++) {
+                      const mag = magResponse[i] < 0.0001 ? 0.0001 : magResponse[i];
+                      const db = 20 * Math.log10(mag);
+                      curvePoints[i] += db;
+                      phasePoints[i] += phaseResponse[i];
+                  }
+              });
+          }
 
           ctx.save();
           if (isLayerActive) {
@@ -446,13 +597,219 @@ export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLay
           ctx.restore();
       });
 
+      // Per-channel curves: the shared bands plus that channel's own, dashed in the channel colour
+      if (isParametric && curLayer === PluginLayer.EQ && mainBands.length < bands.length) {
+          for (let channel = 1; channel < EQ_CHANNELS.length; channel++) {
+              const own = bands.filter(band => getBandChannel(currentParams, band) === channel);
+              if (!own.length) continue;
+              const coeffs = designStages([...mainBands, ...own].flatMap(band => getBandStagesFromParams(currentParams, band)), eqRate);
+              ctx.save();
+              ctx.beginPath();
+              for (let k = 0; k < widthInt; k++) {
+                  const y = getSafeY(20 * Math.log10(Math.max(0.0001, stagesResponse(coeffs, frequencies[k], eqRate).mag)), height);
+                  if (k === 0) ctx.moveTo(k, y);
+                  else ctx.lineTo(k, y);
+              }
+              ctx.setLineDash([6, 3]);
+              ctx.strokeStyle = EQ_CHANNEL_COLORS[channel];
+              ctx.lineWidth = 1.5;
+              ctx.stroke();
+              ctx.restore();
+          }
+      }
+
+      // Spectral match target at the current amount, for comparing fitted bands against it
+      if (isParametric && curLayer === PluginLayer.EQ && currentModule.spectralMatch) {
+          const { curve } = currentModule.spectralMatch;
+          const amount = getMatchAmount(currentParams);
+          ctx.save();
+          ctx.beginPath();
+          for (let k = 0; k < widthInt; k++) {
+              const y = getSafeY(matchGainAt(curve, frequencies[k]) * amount, height);
+              if (k === 0) ctx.moveTo(k, y);
+              else ctx.lineTo(k, y);
+          }
+          ctx.setLineDash([1, 3]);
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+          ctx.lineWidth = 1.5;
+          ctx.stroke();
+          ctx.setLineDash([]);
+          ctx.font = '8px Inter';
+          ctx.textAlign = 'right';
+          ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+          ctx.fillText('MATCH TARGET', width - 8, 40);
+          ctx.restore();
+      }
+
+      // Dynamic EQ: the curve the bands are applying right now, over the static one
+      const liveGains = curLayer === PluginLayer.EQ && currentModule.type === PluginType.VISUAL_EQ && hasDynamicBands(currentParams)
+          ? audioEngine.getDynamicEqGains(currentModule.id)
+          : [];
+      if (liveGains.length === bands.length) {
+          const coeffs = designStages(mainBands.flatMap(band => getBandStagesFromParams(currentParams, band, liveGains[band - 1])), eqRate);
+          for (let k = 0; k < widthInt; k++) {
+              curvePoints[k] = 20 * Math.log10(Math.max(0.0001, stagesResponse(coeffs, frequencies[k], eqRate).mag));
+          }
+          ctx.save();
+          ctx.beginPath();
+          for (let k = 0; k < widthInt; k++) {
+              const y = getSafeY(curvePoints[k], height);
+              if (k === 0) ctx.moveTo(k, y);
+              else ctx.lineTo(k, y);
+          }
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.85)';
+          ctx.lineWidth = 1.5;
+          ctx.stroke();
+          ctx.restore();
+      }
+
+      // Phase response, +-180 degrees over the full height. The linear-phase FIR is a pure delay,
+      // so once its latency is taken out it is flat; the active mode is drawn solid.
+      if (showPhaseRef.current && currentModule.type === PluginType.VISUAL_EQ) {
+          const linear = isLinearPhase(currentParams);
+          const phaseY = (rad: number) => height / 2 - (rad / Math.PI) * (height / 2 - 16);
+          ctx.save();
+          ctx.lineWidth = 1.5;
+
+          ctx.setLineDash(linear ? [4, 4] : []);
+          ctx.strokeStyle = linear ? 'rgba(250, 204, 21, 0.4)' : '#facc15';
+          ctx.beginPath();
+          let prev = 0;
+          for (let k = 0; k < widthInt; k++) {
+              const wrapped = Math.atan2(Math.sin(phasePoints[k]), Math.cos(phasePoints[k]));
+              // Break the line where the phase wraps instead of drawing a vertical jump
+              if (k === 0 || Math.abs(wrapped - prev) > Math.PI) ctx.moveTo(k, phaseY(wrapped));
+              else ctx.lineTo(k, phaseY(wrapped));
+              prev = wrapped;
+          }
+          ctx.stroke();
+
+          ctx.setLineDash(linear ? [] : [4, 4]);
+          ctx.strokeStyle = linear ? '#a78bfa' : 'rgba(167, 139, 250, 0.4)';
+          ctx.beginPath();
+          ctx.moveTo(0, phaseY(0));
+          ctx.lineTo(width, phaseY(0));
+          ctx.stroke();
+
+          ctx.setLineDash([]);
+          ctx.font = '8px Inter';
+          ctx.textAlign = 'right';
+          ctx.fillStyle = '#facc15';
+          ctx.fillText('MINIMUM PHASE', width - 8, height - 20);
+          ctx.fillStyle = '#a78bfa';
+          ctx.fillText(`LINEAR PHASE (+${getFirLatency(getFirLength(currentParams.firLength))} smp)`, width - 8, height - 8);
+          ctx.restore();
+      }
+
+      // Measured response: magnitude dashed green, and its phase dotted when the phase view is on
+      const measured = measurementRef.current;
+      if (measured) {
+          const phaseY = (rad: number) => height / 2 - (rad / Math.PI) * (height / 2 - 16);
+          ctx.save();
+          ctx.lineWidth = 1.5;
+          ctx.strokeStyle = '#4ade80';
+          ctx.setLineDash([5, 3]);
+          ctx.beginPath();
+          let drawing = false;
+          for (let k = 0; k < widthInt; k++) {
+              const { magnitude } = measurementAt(measured, frequencies[k]);
+              if (!Number.isFinite(magnitude)) {
+                  drawing = false;
+                  continue;
+              }
+              const y = getSafeY(magnitude, height);
+              if (!drawing) ctx.moveTo(k, y);
+              else ctx.lineTo(k, y);
+              drawing = true;
+          }
+          ctx.stroke();
+
+          if (showPhaseRef.current) {
+              ctx.setLineDash([1, 3]);
+              ctx.beginPath();
+              let prev = 0;
+              for (let k = 0; k < widthInt; k++) {
+                  const { phase } = measurementAt(measured, frequencies[k]);
+                  if (k === 0 || Math.abs(phase - prev) > Math.PI) ctx.moveTo(k, phaseY(phase));
+                  else ctx.lineTo(k, phaseY(phase));
+                  prev = phase;
+              }
+              ctx.stroke();
+          }
+
+          ctx.setLineDash([]);
+          ctx.font = '8px Inter';
+          ctx.textAlign = 'left';
+          ctx.fillStyle = '#4ade80';
+          ctx.fillText(`MEASURED ${measured.scope} (${TEST_SIGNALS[measured.signal].toUpperCase()}, -${measured.latency} smp)`, 8, height - 8);
+          ctx.restore();
+      }
+
+      // Live gain reduction. Multiband blends each band's reduction across its passband;
+      // a single compressor draws a flat line.
+      if (curLayer === PluginLayer.DYNAMICS) {
+          const reduction = audioEngine.getGainReduction(currentModule.id);
+          if (reduction.some(gr => gr < -0.05)) {
+              if (isMultiband && reduction.length > 1) {
+                  const crossoverMode = isCrossoverMode(currentParams);
+                  const crossovers = getCrossovers(currentParams, getBandCount(currentParams));
+                  const order = getCrossoverOrder(currentParams);
+                  for (let k = 0; k < widthInt; k++) {
+                      let sum = 0;
+                      let weight = 0;
+                      reduction.forEach((gr, b) => {
+                          let w: number;
+                          if (crossoverMode) {
+                              w = crossoverBandMagnitude(frequencies[k], b, crossovers, order);
+                          } else {
+                              const f0 = safeParam(currentParams[`b${b + 1}Freq`], 1000);
+                              const q = safeParam(currentParams[`b${b + 1}Q`], 1.0);
+                              const r = frequencies[k] / f0 - f0 / frequencies[k];
+                              w = 1 / Math.sqrt(1 + q * q * r * r);
+                          }
+                          sum += w * gr;
+                          weight += w;
+                      });
+                      curvePoints[k] = weight > 0 ? sum / weight : 0;
+                  }
+              } else {
+                  curvePoints.fill(Math.min(...reduction));
+              }
+
+              const zeroY = getY(0, height);
+              ctx.save();
+              ctx.beginPath();
+              ctx.moveTo(0, zeroY);
+              for (let k = 0; k < widthInt; k++) ctx.lineTo(k, getSafeY(curvePoints[k], height));
+              ctx.lineTo(width, zeroY);
+              ctx.closePath();
+              ctx.fillStyle = 'rgba(255, 255, 255, 0.08)';
+              ctx.fill();
+
+              ctx.beginPath();
+              for (let k = 0; k < widthInt; k++) {
+                  const y = getSafeY(curvePoints[k], height);
+                  if (k === 0) ctx.moveTo(k, y);
+                  else ctx.lineTo(k, y);
+              }
+              ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+              ctx.lineWidth = 1.5;
+              ctx.stroke();
+              ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+              ctx.font = '8px Inter';
+              ctx.textAlign = 'right';
+              ctx.fillText(`GR ${Math.min(...reduction).toFixed(1)} dB`, width - 8, height - 8);
+              ctx.restore();
+          }
+      }
+
       // Draw Handles
       if (curLayer !== PluginLayer.MODULATION) {
-          for (let i = 1; i <= 7; i++) {
+          for (const i of bands) {
               const idx = i - 1;
               const f = getBandFreq(curLayer, idx, currentParams, currentModule);
               let g = 0;
-              if (curLayer === PluginLayer.EQ) g = safeParam(currentParams[`b${i}Gain`], 0);
+              if (curLayer === PluginLayer.EQ) g = getEqHandleGain(currentParams, i);
               else if (curLayer === PluginLayer.DYNAMICS) g = safeParam(currentParams[`b${i}Dyn`], 0) * 0.3; // Scaled for visual
               else if (curLayer === PluginLayer.SATURATION) g = safeParam(currentParams[`b${i}Sat`], 0);
               else if (curLayer === PluginLayer.SHINE) g = safeParam(currentParams[`b${i}Shine`], 0);
@@ -489,6 +846,45 @@ export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLay
                   }
               }
 
+              // Dynamic bands get a dashed ring and a marker at the gain they apply right now
+              if (curLayer === PluginLayer.EQ && currentModule.type === PluginType.VISUAL_EQ && isDynamicBand(currentParams, i)) {
+                  ctx.beginPath();
+                  ctx.arc(x, y, 12, 0, Math.PI * 2);
+                  ctx.strokeStyle = color;
+                  ctx.lineWidth = 1;
+                  ctx.setLineDash([3, 3]);
+                  ctx.stroke();
+                  ctx.setLineDash([]);
+                  if (liveGains.length > idx) {
+                      const ly = getSafeY(liveGains[idx], height);
+                      ctx.beginPath();
+                      ctx.moveTo(x, getSafeY(0, height));
+                      ctx.lineTo(x, ly);
+                      ctx.strokeStyle = color;
+                      ctx.globalAlpha = 0.5;
+                      ctx.stroke();
+                      ctx.globalAlpha = 1.0;
+                      ctx.beginPath();
+                      ctx.arc(x, ly, 4, 0, Math.PI * 2);
+                      ctx.strokeStyle = '#fff';
+                      ctx.stroke();
+                  }
+              }
+
+              // Bands on one channel get a ring and tag in the channel colour
+              const channel = curLayer === PluginLayer.EQ && isParametric ? getBandChannel(currentParams, i) : 0;
+              if (channel > 0) {
+                  ctx.beginPath();
+                  ctx.arc(x, y, isActive || isSelected ? 10 : 8, 0, Math.PI * 2);
+                  ctx.strokeStyle = EQ_CHANNEL_COLORS[channel];
+                  ctx.lineWidth = 2;
+                  ctx.stroke();
+                  ctx.font = 'bold 8px Inter';
+                  ctx.textAlign = 'center';
+                  ctx.fillStyle = EQ_CHANNEL_COLORS[channel];
+                  ctx.fillText(EQ_CHANNEL_TAGS[channel], x, y - 14);
+              }
+
               ctx.beginPath();
               ctx.arc(x, y, isActive || isSelected ? 8 : 6, 0, Math.PI * 2);
               ctx.fillStyle = color;
@@ -511,57 +907,140 @@ export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLay
 
   }, [filters, availableLayers]); 
 
-  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
-      e.preventDefault();
-      e.stopPropagation();
-      
+  // Closest band handle within 30 px of the pointer on the active layer
+  const hitTestBand = useCallback((x: number, y: number, width: number, height: number): number | null => {
       const curLayer = currentLayerRef.current;
-      if (curLayer === PluginLayer.IMAGER || curLayer === PluginLayer.MODULATION) return;
-
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-      const rect = canvas.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
-
       const currentParams = paramsRef.current;
       const currentModule = moduleRef.current;
       const safeParam = (val: any, def: number) => (typeof val === 'number' && Number.isFinite(val) ? val : def);
 
       let closestDist = 30; 
-      let closestBand = null;
+      let closestBand: number | null = null;
 
-      for (let i = 1; i <= 7; i++) {
+      for (const i of getBands(currentParams)) {
           const idx = i - 1;
           const f = getBandFreq(curLayer, idx, currentParams, currentModule);
-          const bx = getX(f, rect.width);
-          
+          const bx = getX(f, width);
+        
           let val = 0;
-          if (curLayer === PluginLayer.EQ) val = safeParam(currentParams[`b${i}Gain`], 0);
+          if (curLayer === PluginLayer.EQ) val = getEqHandleGain(currentParams, i);
           else if (curLayer === PluginLayer.DYNAMICS) val = safeParam(currentParams[`b${i}Dyn`], 0) * 0.3; // Scaled check
           else if (curLayer === PluginLayer.SATURATION) val = safeParam(currentParams[`b${i}Sat`], 0);
           else if (curLayer === PluginLayer.SHINE) val = safeParam(currentParams[`b${i}Shine`], 0);
           else if (curLayer === PluginLayer.REVERB) val = safeParam(currentParams[`b${i}Verb`], 0);
           else if (curLayer === PluginLayer.DELAY) val = safeParam(currentParams[`b${i}Delay`], 0);
-          
-          const by = getSafeY(val, rect.height);
-          
+        
+          const by = getSafeY(val, height);
+        
           const dist = Math.sqrt(Math.pow(x - bx, 2) + Math.pow(y - by, 2));
           if (dist < closestDist) {
               closestDist = dist;
               closestBand = i;
           }
       }
+      return closestBand;
+  }, []);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+      e.preventDefault();
+      e.stopPropagation();
+      // Focus takes the Delete key; the right button opens the band menu rather than dragging
+      canvasRef.current?.focus();
+      if (e.button === 2) return;
+      
+      const curLayer = currentLayerRef.current;
+      if (curLayer === PluginLayer.IMAGER || curLayer === PluginLayer.MODULATION) return;
+
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const rect = canvas.getBoundingClientRect();
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+
+      const currentParams = paramsRef.current;
+      const currentModule = moduleRef.current;
+
+      // Crossover lines take priority over band handles
+      if (isCrossoverLayer(curLayer, currentModule)) {
+          const crossovers = getCrossovers(currentParams, getBandCount(currentParams));
+          const hit = crossovers.findIndex(freq => Math.abs(getX(freq, rect.width) - x) < 5);
+          if (hit !== -1) {
+              draggingXoverRef.current = hit;
+              (e.target as Element).setPointerCapture(e.pointerId);
+              return;
+          }
+      }
+
+      const closestBand = hitTestBand(x, y, rect.width, rect.height);
 
       if (closestBand) {
           draggingRef.current = closestBand;
           if (onUpdateModuleRef.current) onUpdateModuleRef.current({ selectedBand: closestBand });
           (e.target as Element).setPointerCapture(e.pointerId);
       }
+  }, [hitTestBand]);
+
+  // Adding or deleting renumbers band params, so the whole set goes out in one module update
+  const addBandAt = useCallback((x: number, y: number, width: number, height: number) => {
+      const current = moduleRef.current;
+      const freq = Math.round(Math.max(20, Math.min(20000, getFreqFromX(x, width))));
+      const gain = currentLayerRef.current === PluginLayer.EQ ? getDbFromY(y, height) : 0;
+      const result = addBand(current.params, freq, gain, current.type === PluginType.MULTIBAND);
+      if (result && onUpdateModuleRef.current) onUpdateModuleRef.current({ params: result.params, selectedBand: result.band });
+  }, []);
+
+  const deleteBand = useCallback((band: number) => {
+      const current = moduleRef.current;
+      const next = removeBand(current.params, band, current.type === PluginType.MULTIBAND);
+      if (next && onUpdateModuleRef.current) onUpdateModuleRef.current({ params: next, selectedBand: Math.min(band, getBandCount(next)) });
   }, []);
 
+  // Double-clicking empty space adds a band there; on a parametric EQ handle it toggles the
+  // band between static and dynamic
+  const handleDoubleClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+      const curLayer = currentLayerRef.current;
+      if (!isBandLayer(curLayer)) return;
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const rect = canvas.getBoundingClientRect();
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      const band = hitTestBand(x, y, rect.width, rect.height);
+      if (band) {
+          if (moduleRef.current.type === PluginType.VISUAL_EQ && curLayer === PluginLayer.EQ) {
+              onChangeParamRef.current(`b${band}DynOn`, isDynamicBand(paramsRef.current, band) ? 0 : 1);
+          }
+          return;
+      }
+      addBandAt(x, y, rect.width, rect.height);
+  }, [hitTestBand, addBandAt]);
+
+  // Delete / Backspace removes the selected band while the display has focus
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLCanvasElement>) => {
+      if (e.key !== 'Delete' && e.key !== 'Backspace') return;
+      if (!isBandLayer(currentLayerRef.current)) return;
+      e.preventDefault();
+      deleteBand(moduleRef.current.selectedBand || 1);
+  }, [deleteBand]);
+
+  // Right-clicking a handle opens its band menu (shapes on the parametric EQ, delete everywhere)
+  // instead of the browser's
+  const handleContextMenu = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (!isBandLayer(currentLayerRef.current)) return;
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const rect = canvas.getBoundingClientRect();
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      const band = hitTestBand(x, y, rect.width, rect.height);
+      if (!band) return;
+      e.preventDefault();
+      if (onUpdateModuleRef.current) onUpdateModuleRef.current({ selectedBand: band });
+      setShapeMenu({ band, x: Math.max(0, Math.min(x, rect.width - SHAPE_MENU_WIDTH)), y: Math.max(0, Math.min(y, rect.height - SHAPE_MENU_HEIGHT)) });
+  }, [hitTestBand]);
+
   const handlePointerMove = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
-      if (draggingRef.current === null) return;
+      if (draggingRef.current === null && draggingXoverRef.current === null) return;
       e.preventDefault();
       e.stopPropagation();
       
@@ -580,6 +1059,17 @@ export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLay
       
       if (!Number.isFinite(freq) || !Number.isFinite(val)) return;
 
+      if (draggingXoverRef.current !== null) {
+          // Keep crossover points ordered with a small gap to their neighbours
+          const crossovers = getCrossovers(paramsRef.current, getBandCount(paramsRef.current));
+          const j = draggingXoverRef.current;
+          const lower = j > 0 ? crossovers[j - 1] * 1.05 : 20;
+          const upper = j < crossovers.length - 1 ? crossovers[j + 1] / 1.05 : 20000;
+          onChangeParamRef.current(`x${j + 1}Freq`, Math.max(lower, Math.min(upper, freq)));
+          return;
+      }
+      if (draggingRef.current === null) return;
+
       let minDb = -18;
       let maxDb = 18;
       let valueToSet = val;
@@ -598,11 +1088,13 @@ export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLay
           onChangeParamRef.current(`b${draggingRef.current}Freq`, clampedFreq);
       } else if (curLayer === PluginLayer.SHINE) {
           onChangeParamRef.current(`b${draggingRef.current}ShineFreq`, clampedFreq);
-      } else if (curLayer === PluginLayer.DYNAMICS) {
+      } else if (curLayer === PluginLayer.DYNAMICS && !isCrossoverLayer(curLayer, moduleRef.current)) {
           onChangeParamRef.current(`b${draggingRef.current}Freq`, clampedFreq);
       }
 
-      if (curLayer === PluginLayer.EQ) onChangeParamRef.current(`b${draggingRef.current}Gain`, clampedVal);
+      if (curLayer === PluginLayer.EQ) {
+          if (shapeHasGain(getBandShape(paramsRef.current, draggingRef.current))) onChangeParamRef.current(`b${draggingRef.current}Gain`, clampedVal);
+      }
       else if (curLayer === PluginLayer.DYNAMICS) onChangeParamRef.current(`b${draggingRef.current}Dyn`, clampedVal);
       else if (curLayer === PluginLayer.SATURATION) onChangeParamRef.current(`b${draggingRef.current}Sat`, clampedVal);
       else if (curLayer === PluginLayer.SHINE) onChangeParamRef.current(`b${draggingRef.current}Shine`, clampedVal);
@@ -613,8 +1105,9 @@ export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLay
   const handlePointerUp = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
       e.preventDefault();
       e.stopPropagation();
-      if (draggingRef.current !== null) {
+      if (draggingRef.current !== null || draggingXoverRef.current !== null) {
           draggingRef.current = null;
+          draggingXoverRef.current = null;
           try {
             (e.target as Element).releasePointerCapture(e.pointerId);
           } catch (err) {
@@ -658,14 +1151,161 @@ export const VisualEQ: React.FC<VisualEQProps> = ({ module, onChangeParam, onLay
       <div className="h-full relative">
         <canvas 
             ref={canvasRef} 
-            className="w-full h-full cursor-crosshair touch-none"
+            className="w-full h-full cursor-crosshair touch-none outline-none"
             style={{ touchAction: 'none' }} 
+            tabIndex={0}
+            onKeyDown={handleKeyDown}
             onPointerDown={handlePointerDown}
             onPointerMove={handlePointerMove}
             onPointerUp={handlePointerUp}
             onPointerCancel={handlePointerUp}
             onPointerLeave={handlePointerUp}
+            onDoubleClick={handleDoubleClick}
+            onContextMenu={handleContextMenu}
         />
+
+        {shapeMenu && (() => {
+            const { band } = shapeMenu;
+            const showShapes = type === PluginType.VISUAL_EQ && currentLayer === PluginLayer.EQ;
+            const shape = getBandShape(module.params, band);
+            const slope = getCutSlope(module.params, band);
+            const channel = getBandChannel(module.params, band);
+            const color = BAND_COLORS[band - 1];
+            return (
+                <div
+                  ref={shapeMenuRef}
+                  className="absolute z-20 bg-[#0a0a0a]/95 border border-white/10 rounded-md shadow-2xl p-2"
+                  style={{ left: shapeMenu.x, top: shapeMenu.y, width: SHAPE_MENU_WIDTH }}
+                  onContextMenu={(e) => e.preventDefault()}
+                >
+                    <div className="text-[9px] font-bold uppercase tracking-widest mb-1.5" style={{ color }}>Band {band}</div>
+                    {showShapes && <div className="grid grid-cols-3 gap-1">
+                        {EQ_SHAPES.map((s, index) => (
+                            <button
+                              key={s.shape}
+                              onClick={() => {
+                                  onChangeParam(`b${band}Type`, index);
+                                  if (!isCutShape(s.shape)) setShapeMenu(null);
+                              }}
+                              className={`px-1 py-1 rounded text-[9px] font-mono transition-colors
+                                  ${shape === s.shape ? 'bg-white/10 text-white' : 'text-neutral-500 hover:text-neutral-200 hover:bg-white/5'}
+                              `}
+                            >
+                                {s.label}
+                            </button>
+                        ))}
+                    </div>}
+                    {showShapes && isCutShape(shape) && (
+                        <div className="flex justify-between mt-1.5 pt-1.5 border-t border-white/5">
+                            {CUT_SLOPES.map((dbPerOct, index) => (
+                                <button
+                                  key={dbPerOct}
+                                  onClick={() => {
+                                      onChangeParam(`b${band}Slope`, index);
+                                      setShapeMenu(null);
+                                  }}
+                                  className={`px-1 py-0.5 rounded text-[9px] font-mono transition-colors
+                                      ${slope === dbPerOct ? 'bg-white/10 text-white' : 'text-neutral-500 hover:text-neutral-200'}
+                                  `}
+                                >
+                                    {dbPerOct}
+                                </button>
+                            ))}
+                            <span className="text-[8px] text-neutral-600 self-center">dB/oct</span>
+                        </div>
+                    )}
+                    {showShapes && (
+                        <div className="flex justify-between mt-1.5 pt-1.5 border-t border-white/5">
+                            {EQ_CHANNELS.map((label, index) => (
+                                <button
+                                  key={label}
+                                  onClick={() => {
+                                      onChangeParam(`b${band}Chan`, index);
+                                      setShapeMenu(null);
+                                  }}
+                                  className={`px-1 py-0.5 rounded text-[9px] font-mono transition-colors
+                                      ${channel === index ? 'bg-white/10' : 'opacity-50 hover:opacity-100'}
+                                  `}
+                                  style={{ color: index ? EQ_CHANNEL_COLORS[index] : undefined }}
+                                >
+                                    {index ? EQ_CHANNEL_TAGS[index] : 'ST'}
+                                </button>
+                            ))}
+                            <span className="text-[8px] text-neutral-600 self-center">channel</span>
+                        </div>
+                    )}
+                    <button
+                      onClick={() => {
+                          deleteBand(band);
+                          setShapeMenu(null);
+                      }}
+                      disabled={getBandCount(module.params) <= 1}
+                      className={`w-full mt-1.5 pt-1.5 border-t border-white/5 text-left text-[9px] font-mono transition-colors disabled:opacity-30
+                          text-neutral-500 hover:text-red-400
+                      `}
+                    >
+                        Delete Band
+                    </button>
+                </div>
+            );
+        })()}
+
+        <div className="absolute top-3 right-3 flex space-x-1">
+            <div className="flex items-center space-x-1 px-1 rounded bg-black/50">
+                <select
+                  value={measureSignal}
+                  onChange={(e) => setMeasureSignal(Number(e.target.value))}
+                  title="Test signal"
+                  className="bg-transparent text-[9px] font-mono text-neutral-400 outline-none"
+                >
+                    {TEST_SIGNALS.map((label, index) => <option key={label} value={index}>{label}</option>)}
+                </select>
+                <button
+                  onClick={() => setMeasureScope(prev => prev === 'MODULE' ? 'CHAIN' : 'MODULE')}
+                  title="Measure this module on its own or the whole chain"
+                  className="text-[9px] font-mono text-neutral-500 hover:text-neutral-300"
+                >
+                    {measureScope}
+                </button>
+                <button
+                  onClick={measure}
+                  disabled={measuring}
+                  title="Render the test signal offline and overlay the measured response"
+                  className={`py-1 text-[10px] font-mono tracking-widest transition-colors disabled:opacity-50
+                      ${measurement ? 'text-green-400' : 'text-neutral-500 hover:text-neutral-300'}
+                  `}
+                >
+                    {measuring ? '...' : 'MEASURE'}
+                </button>
+                {measurement && (
+                    <button onClick={() => setMeasurement(null)} title="Clear the measurement" className="text-neutral-600 hover:text-red-500">
+                        <X size={10} />
+                    </button>
+                )}
+            </div>
+            {type === PluginType.VISUAL_EQ && (
+                <button
+                  onClick={() => setShowMidSide(prev => !prev)}
+                  title="Show the Mid and Side spectra separately"
+                  className={`px-2 py-1 rounded bg-black/50 text-[10px] font-mono tracking-widest transition-colors
+                      ${showMidSide ? 'text-cyan-400' : 'text-neutral-500 hover:text-neutral-300'}
+                  `}
+                >
+                    M/S
+                </button>
+            )}
+            {(type === PluginType.VISUAL_EQ || measurement) && (
+                <button
+                  onClick={() => setShowPhase(prev => !prev)}
+                  title="Overlay the phase response of the minimum- and linear-phase modes and the measurement"
+                  className={`px-2 py-1 rounded bg-black/50 text-[10px] font-mono tracking-widest transition-colors
+                      ${showPhase ? 'text-yellow-400' : 'text-neutral-500 hover:text-neutral-300'}
+                  `}
+                >
+                    PHASE
+                </button>
+            )}
+        </div>
         
         <div className="absolute top-3 left-3 flex flex-col space-y-1 pointer-events-none opacity-50">
            <span className={`text-[10px] font-mono tracking-widest bg-black/50 px-2 py-1 rounded ${isHybrid || isMultiband ? 'text-yellow-500' : 'text-white'}`}>
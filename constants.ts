@@ -1,4 +1,11 @@
 import { PluginType, AudioParamConfig, PluginLayer, UIComponent } from './types';
+import { DEFAULT_CROSSOVERS } from './services/crossover';
+import { NOTE_DIVISIONS } from './services/tempo';
+import { DEFAULT_OVERSAMPLE, OVERSAMPLE_OPTIONS } from './services/latency';
+import { DEFAULT_FIR_LENGTH, FIR_LENGTHS, PHASE_MODES } from './services/linearPhase';
+import { DEFAULT_BAND_COUNT, DEFAULT_BAND_FREQS, generateBandParams, MAX_BANDS, MIN_BANDS } from './services/bands';
+import { DEFAULT_MATCH_SMOOTHING, MATCH_SMOOTHING } from './services/spectralMatch';
+import { MAX_UNISON, NOISE_TYPES, SYNTH_WAVEFORMS } from './services/synth';
 
 // Band Colors matching Fruity PEQ2 / FabFilter style
 export const BAND_COLORS = [
@@ -8,56 +15,59 @@ export const BAND_COLORS = [
   '#eab308', // Yellow (Mid) - Band 4
   '#22c55e', // Green (High Mid) - Band 5
   '#06b6d4', // Cyan (Presence) - Band 6
-  '#3b82f6'  // Blue (Treble) - Band 7
+  '#3b82f6', // Blue (Treble) - Band 7
+  // Added bands (up to MAX_BANDS)
+  '#ef4444', '#f59e0b', '#84cc16', '#10b981', '#14b8a6', '#0ea5e9', '#6366f1', '#d946ef', '#f43f5e',
+  '#a78bfa', '#f472b6', '#fb923c', '#facc15', '#4ade80', '#22d3ee', '#60a5fa', '#f87171'
 ];
 
 const generateEqParams = () => {
     const params: AudioParamConfig[] = [];
-    const freqs = [60, 130, 300, 800, 2000, 5000, 10000];
-    
-    for (let i = 1; i <= 7; i++) {
-        // Main EQ Params
-        params.push(
-            { id: `b${i}Freq`, name: `Band ${i} Freq`, value: freqs[i-1], min: 20, max: 20000, step: 1, unit: 'Hz', hidden: true },
-            { id: `b${i}Gain`, name: `Band ${i} Gain`, value: 0, min: -18, max: 18, step: 0.1, unit: 'dB', hidden: true },
-            { id: `b${i}Q`, name: `Band ${i} Q`, value: 1.0, min: 0.1, max: 10, step: 0.1, unit: '', hidden: true }
-        );
-
-        // Layer Params (Hidden by default, used when layers active)
-        // Dynamics: Value represents compression intensity/threshold shift
-        params.push({ id: `b${i}Dyn`, name: `Band ${i} Dyn`, value: 0, min: -60, max: 0, step: 0.5, unit: 'dB', hidden: true });
-        // Saturation: Value represents drive intensity
-        params.push({ id: `b${i}Sat`, name: `Band ${i} Sat`, value: 0, min: -18, max: 18, step: 0.1, unit: '', hidden: true });
-        
-        // Shine: Value represents polish/excite amount + Frequency control for separation
-        params.push({ id: `b${i}Shine`, name: `Band ${i} Shine`, value: 0, min: -18, max: 18, step: 0.1, unit: '', hidden: true });
-        params.push({ id: `b${i}ShineFreq`, name: `Band ${i} Shine Freq`, value: freqs[i-1], min: 20, max: 20000, step: 1, unit: 'Hz', hidden: true });
+    DEFAULT_BAND_FREQS.forEach((freq, i) => params.push(...generateBandParams(i + 1, freq)));
 
-        // Reverb: Value represents send amount
-        params.push({ id: `b${i}Verb`, name: `Band ${i} Verb`, value: 0, min: -18, max: 18, step: 0.1, unit: '', hidden: true });
-        // Delay: Value represents feedback/mix
-        params.push({ id: `b${i}Delay`, name: `Band ${i} Delay`, value: 0, min: -18, max: 18, step: 0.1, unit: '', hidden: true });
-        
-        // Extra Dynamics Params per band (For Multiband)
-        params.push(
-            { id: `b${i}Ratio`, name: `Band ${i} Ratio`, value: 4, min: 1, max: 20, step: 0.1, unit: ':1', hidden: true },
-            { id: `b${i}Attack`, name: `Band ${i} Attack`, value: 0.01, min: 0, max: 0.2, step: 0.001, unit: 's', hidden: true },
-            { id: `b${i}Release`, name: `Band ${i} Release`, value: 0.1, min: 0.01, max: 1, step: 0.01, unit: 's', hidden: true }
-        );
-    }
-    
+    // Band count, changed by adding and deleting bands on the curve
+    params.push({ id: 'bands', name: 'Bands', value: DEFAULT_BAND_COUNT, min: MIN_BANDS, max: MAX_BANDS, step: 1, unit: '', hidden: true });
     params.push({ id: 'output', name: 'Output', value: 0, min: -24, max: 24, step: 0.1, unit: 'dB' });
     return params;
 };
 
 export const EQ_PARAMS = generateEqParams();
 
+// Linkwitz-Riley crossover points sit between adjacent multiband bands
+const generateCrossoverParams = () => {
+    const params: AudioParamConfig[] = [
+        { id: 'xoverMode', name: 'LR Split', value: 1, min: 0, max: 1, step: 1, unit: '' },
+        { id: 'xoverSlope', name: 'LR48', value: 0, min: 0, max: 1, step: 1, unit: '' }
+    ];
+    DEFAULT_CROSSOVERS.forEach((freq, i) => {
+        params.push({ id: `x${i + 1}Freq`, name: `Crossover ${i + 1}`, value: freq, min: 20, max: 20000, step: 1, unit: 'Hz', hidden: true });
+    });
+    return params;
+};
+
+// Detector key for the dynamics modules: own input, the loaded key file or the tempo-locked test pulse
+export const SIDECHAIN_SOURCES = ['Internal', 'Key File', 'Test Pulse'];
+
+const SIDECHAIN_PARAMS: AudioParamConfig[] = [
+    { id: 'scSource', name: 'SC Source', value: 0, min: 0, max: SIDECHAIN_SOURCES.length - 1, step: 1, unit: '', options: SIDECHAIN_SOURCES },
+    { id: 'scHpf', name: 'SC HPF', value: 20, min: 20, max: 1000, step: 1, unit: 'Hz' },
+    { id: 'scListen', name: 'SC Listen', value: 0, min: 0, max: 1, step: 1, unit: '' }
+];
+
 export const PLUGIN_DEFINITIONS: Record<PluginType, { params: AudioParamConfig[], description: string, defaultColor: string, icon: string }> = {
   [PluginType.VISUAL_EQ]: {
-    description: "7-Band Parametric EQ with real-time spectral analysis.",
+    description: "Parametric EQ with up to 24 bands and real-time spectral analysis.",
     defaultColor: "#3b82f6",
     icon: "waves",
-    params: EQ_PARAMS
+    params: [
+      ...EQ_PARAMS,
+      { id: 'phaseMode', name: 'Phase', value: 0, min: 0, max: PHASE_MODES.length - 1, step: 1, unit: '', options: PHASE_MODES },
+      { id: 'firLength', name: 'FIR Length', value: DEFAULT_FIR_LENGTH, min: 0, max: FIR_LENGTHS.length - 1, step: 1, unit: '', options: FIR_LENGTHS.map(String) },
+      // Spectral match, set from the match panel
+      { id: 'matchAmount', name: 'Match Amount', value: 100, min: 0, max: 100, step: 1, unit: '%', hidden: true },
+      { id: 'matchFilter', name: 'Match Filter', value: 0, min: 0, max: 1, step: 1, unit: '', hidden: true },
+      { id: 'matchSmoothing', name: 'Match Smoothing', value: DEFAULT_MATCH_SMOOTHING, min: 0, max: MATCH_SMOOTHING.length - 1, step: 1, unit: '', hidden: true, options: MATCH_SMOOTHING }
+    ]
   },
   [PluginType.SHINE]: {
       description: "High-frequency polisher and spectral enhancer.",
@@ -72,7 +82,8 @@ export const PLUGIN_DEFINITIONS: Record<PluginType, { params: AudioParamConfig[]
     params: [
         ...EQ_PARAMS,
         { id: 'smartDrive', name: 'Smart Drive', value: 50, min: 0, max: 100, step: 1, unit: '%' },
-        { id: 'smartDyn', name: 'Smart Dyn', value: 50, min: 0, max: 100, step: 1, unit: '%' }
+        { id: 'smartDyn', name: 'Smart Dyn', value: 50, min: 0, max: 100, step: 1, unit: '%' },
+        { id: 'oversampleSat', name: 'Oversampling', value: DEFAULT_OVERSAMPLE, min: 0, max: OVERSAMPLE_OPTIONS.length - 1, step: 1, unit: '', options: OVERSAMPLE_OPTIONS }
     ]
   },
   [PluginType.MULTIBAND]: {
@@ -80,7 +91,9 @@ export const PLUGIN_DEFINITIONS: Record<PluginType, { params: AudioParamConfig[]
     defaultColor: "#f43f5e",
     icon: "activity",
     params: [
-      ...EQ_PARAMS, // Uses EQ bands but mapped to parallel compression
+      ...EQ_PARAMS, // Uses EQ bands, split by the crossover or mapped to parallel compression
+      ...generateCrossoverParams(),
+      ...SIDECHAIN_PARAMS
     ]
   },
   [PluginType.COMPRESSOR]: {
@@ -92,7 +105,10 @@ export const PLUGIN_DEFINITIONS: Record<PluginType, { params: AudioParamConfig[]
       { id: 'ratio', name: 'Ratio', value: 4, min: 1, max: 20, step: 0.5, unit: ':1' },
       { id: 'attack', name: 'Attack', value: 0.003, min: 0, max: 1, step: 0.001, unit: 's' },
       { id: 'release', name: 'Release', value: 0.25, min: 0, max: 1, step: 0.01, unit: 's' },
-      { id: 'makeup', name: 'Make Up', value: 0, min: 0, max: 24, step: 0.1, unit: 'dB' }
+      { id: 'knee', name: 'Knee', value: 6, min: 0, max: 24, step: 0.5, unit: 'dB' },
+      { id: 'lookahead', name: 'Lookahead', value: 0, min: 0, max: 10, step: 0.1, unit: 'ms' },
+      { id: 'makeup', name: 'Make Up', value: 0, min: 0, max: 24, step: 0.1, unit: 'dB' },
+      ...SIDECHAIN_PARAMS
     ]
   },
   [PluginType.SATURATION]: {
@@ -101,7 +117,8 @@ export const PLUGIN_DEFINITIONS: Record<PluginType, { params: AudioParamConfig[]
     icon: "flame",
     params: [
       { id: 'drive', name: 'Drive', value: 20, min: 0, max: 100, step: 1, unit: '%' },
-      { id: 'output', name: 'Output', value: 0, min: -24, max: 6, step: 0.1, unit: 'dB' }
+      { id: 'output', name: 'Output', value: 0, min: -24, max: 6, step: 0.1, unit: 'dB' },
+      { id: 'oversample', name: 'Oversampling', value: DEFAULT_OVERSAMPLE, min: 0, max: OVERSAMPLE_OPTIONS.length - 1, step: 1, unit: '', options: OVERSAMPLE_OPTIONS }
     ]
   },
   [PluginType.REVERB]: {
@@ -111,7 +128,14 @@ export const PLUGIN_DEFINITIONS: Record<PluginType, { params: AudioParamConfig[]
     params: [
       { id: 'mix', name: 'Wet/Dry', value: 0.3, min: 0, max: 1, step: 0.01, unit: '' },
       { id: 'decay', name: 'Decay', value: 2.0, min: 0.1, max: 10, step: 0.1, unit: 's' },
-      { id: 'size', name: 'Room Size', value: 0.8, min: 0, max: 1, step: 0.01, unit: '' }
+      { id: 'size', name: 'Room Size', value: 0.8, min: 0, max: 1, step: 0.01, unit: '' },
+      { id: 'predelay', name: 'Pre-Delay', value: 10, min: 0, max: 250, step: 1, unit: 'ms' },
+      { id: 'damping', name: 'Damping', value: 0.5, min: 0, max: 1, step: 0.01, unit: '' },
+      { id: 'early', name: 'Early Ref', value: 0.5, min: 0, max: 1, step: 0.01, unit: '' },
+      { id: 'irSource', name: 'Loaded IR', value: 0, min: 0, max: 1, step: 1, unit: '' },
+      { id: 'irStretch', name: 'IR Stretch', value: 1, min: 0.5, max: 2, step: 0.01, unit: 'x' },
+      { id: 'irTrim', name: 'IR Length', value: 100, min: 5, max: 100, step: 1, unit: '%' },
+      { id: 'irReverse', name: 'Reverse', value: 0, min: 0, max: 1, step: 1, unit: '' }
     ]
   },
   [PluginType.DELAY]: {
@@ -120,17 +144,41 @@ export const PLUGIN_DEFINITIONS: Record<PluginType, { params: AudioParamConfig[]
     icon: "clock",
     params: [
       { id: 'time', name: 'Time', value: 0.3, min: 0, max: 1, step: 0.01, unit: 's' },
+      { id: 'timeR', name: 'Time R', value: 0.45, min: 0, max: 1, step: 0.01, unit: 's' },
       { id: 'feedback', name: 'Feedback', value: 0.4, min: 0, max: 0.9, step: 0.01, unit: '' },
-      { id: 'mix', name: 'Mix', value: 0.5, min: 0, max: 1, step: 0.01, unit: '' }
+      { id: 'mix', name: 'Mix', value: 0.5, min: 0, max: 1, step: 0.01, unit: '' },
+      { id: 'pingPong', name: 'Ping-Pong', value: 1, min: 0, max: 1, step: 1, unit: '' },
+      { id: 'sync', name: 'Sync', value: 0, min: 0, max: 1, step: 1, unit: '' },
+      { id: 'noteL', name: 'Note', value: 8, min: 0, max: NOTE_DIVISIONS.length - 1, step: 1, unit: '', options: NOTE_DIVISIONS.map(d => d.label) },
+      { id: 'noteR', name: 'Note R', value: 7, min: 0, max: NOTE_DIVISIONS.length - 1, step: 1, unit: '', options: NOTE_DIVISIONS.map(d => d.label) },
+      { id: 'lowCut', name: 'Low Cut', value: 120, min: 20, max: 2000, step: 1, unit: 'Hz' },
+      { id: 'highCut', name: 'High Cut', value: 8000, min: 1000, max: 20000, step: 10, unit: 'Hz' },
+      { id: 'fbDrive', name: 'FB Drive', value: 0, min: 0, max: 100, step: 1, unit: '%' },
+      { id: 'fbOversample', name: 'FB Oversampling', value: 0, min: 0, max: OVERSAMPLE_OPTIONS.length - 1, step: 1, unit: '', options: OVERSAMPLE_OPTIONS }
     ]
   },
   [PluginType.OSCILLATOR]: {
-    description: "Signal Generator (Saw/Sine).",
+    description: "Synth Signal Generator with PWM, Unison, Noise and ADSR. Playable from the Keyboard.",
     defaultColor: "#f59e0b", // Amber
     icon: "music",
     params: [
-      { id: 'frequency', name: 'Freq', value: 440, min: 50, max: 2000, step: 1, unit: 'Hz' },
+      { id: 'waveform', name: 'Wave', value: 2, min: 0, max: SYNTH_WAVEFORMS.length - 1, step: 1, unit: '', options: SYNTH_WAVEFORMS },
+      { id: 'pulseWidth', name: 'Width', value: 50, min: 5, max: 95, step: 1, unit: '%' },
+      { id: 'pwmRate', name: 'PWM Rate', value: 0.5, min: 0.05, max: 10, step: 0.05, unit: 'Hz' },
+      { id: 'pwmDepth', name: 'PWM Depth', value: 0, min: 0, max: 45, step: 1, unit: '%' },
+      { id: 'unison', name: 'Unison', value: 1, min: 1, max: MAX_UNISON, step: 1, unit: '' },
+      { id: 'spread', name: 'Spread', value: 15, min: 0, max: 100, step: 1, unit: 'cts' },
       { id: 'detune', name: 'Detune', value: 0, min: -100, max: 100, step: 1, unit: 'cts' },
+      { id: 'noiseType', name: 'Noise', value: 0, min: 0, max: NOISE_TYPES.length - 1, step: 1, unit: '', options: NOISE_TYPES },
+      { id: 'noiseLevel', name: 'Noise Lvl', value: 0.3, min: 0, max: 1, step: 0.01, unit: '' },
+      { id: 'attack', name: 'Attack', value: 0.005, min: 0.001, max: 2, step: 0.001, unit: 's' },
+      { id: 'decay', name: 'Decay', value: 0.2, min: 0.001, max: 2, step: 0.001, unit: 's' },
+      { id: 'sustain', name: 'Sustain', value: 0.8, min: 0, max: 1, step: 0.01, unit: '' },
+      { id: 'release', name: 'Release', value: 0.3, min: 0.001, max: 4, step: 0.001, unit: 's' },
+      { id: 'octave', name: 'Octave', value: 4, min: 1, max: 7, step: 1, unit: '' },
+      // Drone at `frequency` for auditioning without playing
+      { id: 'hold', name: 'Hold', value: 0, min: 0, max: 1, step: 1, unit: '' },
+      { id: 'frequency', name: 'Freq', value: 440, min: 50, max: 2000, step: 1, unit: 'Hz' },
       { id: 'gain', name: 'Level', value: 0.5, min: 0, max: 1, step: 0.01, unit: '' },
     ]
   },
@@ -233,6 +281,46 @@ export const createDefaultLayout = (type: PluginType, defaultColor: string, nest
         });
     }
 
+    // Selected-band dynamics and the reference match for the parametric EQ
+    if (type === PluginType.VISUAL_EQ) {
+        layout.push({
+            id: Math.random().toString(36).substring(2, 9),
+            type: 'EQ_BAND_CONTROLS',
+            label: 'Band Dynamics',
+            colSpan: 4,
+            height: 120
+        });
+        layout.push({
+            id: Math.random().toString(36).substring(2, 9),
+            type: 'MATCH_EQ',
+            label: 'Spectral Match',
+            colSpan: 4,
+            height: 96
+        });
+    }
+
+    // Harmonic analysis of the shaper
+    if (type === PluginType.SATURATION) {
+        layout.push({
+            id: Math.random().toString(36).substring(2, 9),
+            type: 'HARMONICS',
+            label: 'Harmonics',
+            colSpan: 4,
+            height: 112
+        });
+    }
+
+    // Playable keyboard for the synth source
+    if (type === PluginType.OSCILLATOR) {
+        layout.push({
+            id: Math.random().toString(36).substring(2, 9),
+            type: 'SYNTH_KEYS',
+            label: 'Keyboard',
+            colSpan: 4,
+            height: 88
+        });
+    }
+
     // Controls Section construction
     const knobComponents: UIComponent[] = [];
 
@@ -263,6 +351,17 @@ export const createDefaultLayout = (type: PluginType, defaultColor: string, nest
          });
     }
     
+    if (type === PluginType.REVERB) {
+         knobComponents.push({
+             id: Math.random().toString(36).substring(2, 9),
+             type: 'IR_LOADER',
+             label: 'Impulse',
+             color: defaultColor,
+             colSpan: 4,
+             height: 56
+         });
+    }
+
     // 3a. Process Standard Params
     params.forEach(p => {
         if (p.hidden) return;
@@ -296,6 +395,33 @@ export const createDefaultLayout = (type: PluginType, defaultColor: string, nest
              }
         }
 
+        if (p.options) {
+            knobComponents.push({
+                id: Math.random().toString(36).substring(2, 9),
+                type: 'DROPDOWN',
+                label: p.name,
+                paramId: p.id,
+                color: color,
+                style: 'classic',
+                visibleOnLayer
+            });
+            return;
+        }
+
+        // On/off params get a switch instead of a knob
+        if (p.min === 0 && p.max === 1 && p.step === 1) {
+            knobComponents.push({
+                id: Math.random().toString(36).substring(2, 9),
+                type: 'SWITCH',
+                label: p.name,
+                paramId: p.id,
+                color: color,
+                style: 'classic',
+                visibleOnLayer
+            });
+            return;
+        }
+
         knobComponents.push({
             id: Math.random().toString(36).substring(2, 9),
             type: 'KNOB',
@@ -467,9 +593,25 @@ export const createDefaultLayout = (type: PluginType, defaultColor: string, nest
                              label: 'Style',
                              paramId: 'multibandStyle',
                              color: '#f43f5e',
-                             colSpan: 3,
+                             colSpan: 2,
                              style: 'classic'
                          },
+                         {
+                             id: Math.random().toString(36).substring(2, 9),
+                             type: 'SWITCH',
+                             label: 'LR Split',
+                             paramId: 'xoverMode',
+                             color: '#f43f5e',
+                             style: 'soft'
+                         },
+                         {
+                             id: Math.random().toString(36).substring(2, 9),
+                             type: 'SWITCH',
+                             label: 'LR48',
+                             paramId: 'xoverSlope',
+                             color: '#f43f5e',
+                             style: 'soft'
+                         },
                          {
                              id: Math.random().toString(36).substring(2, 9),
                              type: 'KNOB',
@@ -482,6 +624,44 @@ export const createDefaultLayout = (type: PluginType, defaultColor: string, nest
                          }
                      ]
                  },
+                 // Sidechain key row
+                 {
+                     id: Math.random().toString(36).substring(2, 9),
+                     type: 'SECTION',
+                     label: 'Sidechain',
+                     colSpan: 4,
+                     sectionVariant: 'minimal',
+                     layoutDirection: 'row',
+                     children: [
+                         {
+                             id: Math.random().toString(36).substring(2, 9),
+                             type: 'DROPDOWN',
+                             label: 'SC Source',
+                             paramId: 'scSource',
+                             color: '#f43f5e',
+                             colSpan: 2,
+                             style: 'classic'
+                         },
+                         {
+                             id: Math.random().toString(36).substring(2, 9),
+                             type: 'KNOB',
+                             label: 'SC HPF',
+                             paramId: 'scHpf',
+                             color: '#f43f5e',
+                             size: 40,
+                             style: 'classic',
+                             colSpan: 1
+                         },
+                         {
+                             id: Math.random().toString(36).substring(2, 9),
+                             type: 'SWITCH',
+                             label: 'SC Listen',
+                             paramId: 'scListen',
+                             color: '#f43f5e',
+                             style: 'soft'
+                         }
+                     ]
+                 },
                  // Per-Band Controls handled by custom component that reads selectedBand state
                  {
                      id: Math.random().toString(36).substring(2, 9),
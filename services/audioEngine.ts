@@ -1,5 +1,36 @@
 
-import { PluginModuleState, PluginType, SaturationMode, ShineMode } from '../types';
+import { PluginModuleState, PluginType, ShineMode, ImpulseRef, RoutingGraph, RoutingNode } from '../types';
+import { loadDspWorklet } from './dspWorklet';
+import { CROSSOVER_QS, getCrossoverOrder, getCrossovers, isCrossoverMode } from './crossover';
+import { getMultibandVoicing, MultibandVoicing } from './multibandStyles';
+import { DEFAULT_BPM, divisionToSeconds } from './tempo';
+import { dbToGain, DEFAULT_SPLIT_FREQ } from './routing';
+import { createLoudnessAnalyzer, LoudnessSnapshot } from './loudness';
+import { isDynamicBand } from './dynamicEq';
+import { getBandCount, getBands } from './bands';
+import { designStages, eqStageCoeffs, getBandShape, getBandStagesFromParams, getCutSlope, stagesResponse } from './eqShapes';
+import { bandChannelMatrix, ChannelMatrix, getBandChannel, hasChannelBands, multiplyChannelMatrix } from './eqChannels';
+import { designLinearPhaseKernel, getFirLength, isLinearPhase, linearPhaseKey } from './linearPhase';
+import { getMatchAmount, getMatchFilterCurve, matchGainAt } from './spectralMatch';
+import { makeDistortionCurve } from './harmonics';
+import { ChainMeasurement, createTestSignal, MEASURE_TAIL, measureResponse } from './measurement';
+import { createSynthVoice, HOLD_NOTE, MAX_VOICES, noteToFreq, SynthVoice, synthVoiceKey } from './synth';
+import { DEFAULT_OVERSAMPLE, getChainLatency, getModuleLatency, nativeOversample, oversampleFactor } from './latency';
+import { generateReverbImpulse, getImpulseShaping, getReverbSettings, impulseShapingKey, reverbSettingsKey, shapeImpulse } from './reverbImpulse';
+
+// Connection between two node groups, routed through its own gain so it can be faded in and out
+interface ChainEdge {
+  from: AudioNode;
+  to: AudioNode;
+  gain: GainNode;
+  level: number;
+}
+
+// Ramp used when the chain is rewired during playback
+const EDGE_FADE = 0.015;
+
+// BiquadFilterNode reads lowpass/highpass Q in dB (resonance), every other type as linear Q
+const nativeStageQ = (kind: string, q: number) => (kind === 'lowpass' || kind === 'highpass' ? 20 * Math.log10(q) : q);
 
 class AudioEngine {
   private context: AudioContext;
@@ -10,13 +41,63 @@ class AudioEngine {
   private splitter: ChannelSplitterNode;
   private analyzerL: AnalyserNode;
   private analyzerR: AnalyserNode;
-
-  private sourceNode: MediaElementAudioSourceNode | OscillatorNode | null = null;
+  // Mid/Side spectra for the EQ view
+  private analyzerM: AnalyserNode;
+  private analyzerS: AnalyserNode;
+
+  private sourceNode: MediaElementAudioSourceNode | null = null;
+
+  // Loudness-matched A/B: the chain ends in `chainOutput`, and `autoGain` trims it to the
+  // loudness of the bypassed source when enabled. Both sides are metered K-weighted.
+  private chainOutput: GainNode;
+  private autoGain: GainNode;
+  private dryTap: GainNode;
+  private dryMeter: AnalyserNode;
+  private wetMeter: AnalyserNode;
+  private autoGainTimer: number | null = null;
+  private autoGainDb = 0;
+  private dryEnergy = 0;
+  private wetEnergy = 0;
   private pluginNodes: Map<string, AudioNode[]> = new Map();
   private currentModules: PluginModuleState[] = [];
+  // Routing graph of the live chain, null while the project is a plain linear chain
+  private currentRouting: RoutingGraph | null = null;
+
+  // Reconciler state: structure key per node group, and the gain-node edges wiring groups together
+  private groupKeys: Map<string, string> = new Map();
+  private edges: Map<string, ChainEdge> = new Map();
   
-  // Reverb Impulse
-  private impulseBuffer: AudioBuffer | null = null;
+  // Pending impulse regenerations per module, debounced while knobs are dragged
+  private reverbTimers: Map<string, number> = new Map();
+  private firTimers: Map<string, number> = new Map();
+  // Project tempo for note-synced delay times
+  private bpm = DEFAULT_BPM;
+
+  // Decoded user IRs, referenced from module state by id
+  private impulseLibrary: Map<string, AudioBuffer> = new Map();
+
+  // Sidechain key buses per context: [key file, test pulse]. The live key file and pulse player
+  // are kept so a new file or tempo can be swapped in.
+  private sidechainBuses: WeakMap<BaseAudioContext, GainNode[]> = new WeakMap();
+  private keySourceNode: MediaElementAudioSourceNode | null = null;
+  private livePulse: AudioBufferSourceNode | null = null;
+
+  // Master-bus loudness meter (needs the worklet) and the UI listeners fed from it
+  private meterNode: AudioWorkletNode | null = null;
+  private loudnessListeners: Set<(snapshot: LoudnessSnapshot) => void> = new Set();
+
+  // Sounding synth voices per OSCILLATOR module by note (HOLD_NOTE for the held tone), oldest
+  // first, and the notes currently down with the UI listeners following them
+  private synthVoices: Map<string, Map<number, SynthVoice>> = new Map();
+  private heldNotes: Set<number> = new Set();
+  private noteListeners: Set<(notes: number[]) => void> = new Set();
+
+  // Latest gain reduction (dB, <= 0) reported by each live dynamics worklet, one value per band
+  private gainReduction: Map<string, number[]> = new Map();
+  private dynamicEqGains: Map<string, number[]> = new Map();
+
+  // Contexts with the AudioWorklet DSP loaded (others fall back to stock nodes)
+  private workletContexts: WeakSet<BaseAudioContext> = new WeakSet();
 
   constructor() {
     this.context = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -47,65 +128,109 @@ class AudioEngine {
     this.masterGain.connect(this.splitter);
     this.splitter.connect(this.analyzerL, 0);
     this.splitter.connect(this.analyzerR, 1);
+
+    // Mid/Side Analyzers: M = (L + R) / 2, S = (L - R) / 2, same resolution as the spectrum
+    this.analyzerM = this.context.createAnalyser();
+    this.analyzerS = this.context.createAnalyser();
+    [this.analyzerM, this.analyzerS].forEach(a => {
+        a.fftSize = 4096;
+        a.smoothingTimeConstant = 0.8;
+    });
+    const midSum = this.context.createGain();
+    const sideSum = this.context.createGain();
+    const sideInvert = this.context.createGain();
+    midSum.gain.value = 0.5;
+    sideSum.gain.value = 0.5;
+    sideInvert.gain.value = -1;
+    this.splitter.connect(midSum, 0);
+    this.splitter.connect(midSum, 1);
+    this.splitter.connect(sideSum, 0);
+    this.splitter.connect(sideInvert, 1);
+    sideInvert.connect(sideSum);
+    midSum.connect(this.analyzerM);
+    sideSum.connect(this.analyzerS);
+
+    // Auto-gain: chain -> chainOutput -> autoGain -> master, with the source tapped before the chain
+    this.chainOutput = this.context.createGain();
+    this.autoGain = this.context.createGain();
+    this.dryTap = this.context.createGain();
+    this.chainOutput.connect(this.autoGain);
+    this.autoGain.connect(this.masterGain);
+    this.dryMeter = this.createLoudnessTap(this.dryTap);
+    this.wetMeter = this.createLoudnessTap(this.chainOutput);
     
-    this.generateImpulseResponse();
+    this.loadWorklets();
   }
 
-  private generateImpulseResponse() {
-    const rate = this.context.sampleRate;
-    const length = rate * 2.0; // 2 seconds
-    const decay = 2.0;
-    const impulse = this.context.createBuffer(2, length, rate);
-    const left = impulse.getChannelData(0);
-    const right = impulse.getChannelData(1);
+  private loadWorklets() {
+    loadDspWorklet(this.context)
+      .then(() => {
+        this.workletContexts.add(this.context);
+        this.createMeter();
+        // Rebuild so existing modules swap over to the worklet processors
+        this.reconnectChain();
+      })
+      .catch(e => console.warn('DSP worklet unavailable, using native nodes', e));
+  }
 
-    for (let i = 0; i < length; i++) {
-      left[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, decay);
-      right[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, decay);
-    }
-    this.impulseBuffer = impulse;
+  private createMeter() {
+    this.meterNode = new AudioWorkletNode(this.context, 'sf-meter', { numberOfInputs: 1, numberOfOutputs: 0 });
+    this.meterNode.port.onmessage = (e) => {
+      if (e.data?.type !== 'loudness') return;
+      const { type, ...snapshot } = e.data;
+      this.loudnessListeners.forEach(listener => listener(snapshot as LoudnessSnapshot));
+    };
+    this.masterGain.connect(this.meterNode);
   }
 
-  // Create a distortion curve based on mode
-  private makeDistortionCurve(amount: number, mode: SaturationMode = 'TUBE') {
-    const k = (typeof amount === 'number' && isFinite(amount)) ? amount : 0;
-    const n_samples = 44100;
-    const curve = new Float32Array(n_samples);
-    const deg = Math.PI / 180;
-    
-    for (let i = 0; i < n_samples; ++i) {
-      const x = (i * 2) / n_samples - 1;
-      
-      switch (mode) {
-          case 'DIGITAL': // Hard Clipping
-             if (x < -0.5) curve[i] = -0.5;
-             else if (x > 0.5) curve[i] = 0.5;
-             else curve[i] = x;
-             curve[i] *= (1 + k/100); // Gain scaling
-             break;
-
-          case 'TAPE': // Asymmetric Soft
-             const y = (x + 0.2 * x * x * x); // Bias
-             curve[i] = Math.tanh(y * (1 + k/50));
-             break;
-
-          case 'FUZZ': // High Gain into Hard Clip
-             const gain = 1 + (k/5);
-             const z = x * gain;
-             curve[i] = Math.max(-0.8, Math.min(0.8, z));
-             break;
-
-          case 'RECTIFY': // Absolute
-             curve[i] = Math.abs(x) * (1 + k/100) - 0.2; 
-             break;
-
-          case 'TUBE':
-          default: // Soft Clipping (Standard)
-             curve[i] = ((3 + k) * x * 20 * deg) / (Math.PI + k * Math.abs(x));
-             break;
-      }
-    }
-    return curve;
+  // K-weighting (the loudness meter's BS.1770 shelf and highpass) into an analyser, for the
+  // auto-gain's level reads
+  private createLoudnessTap(input: AudioNode): AnalyserNode {
+    const k = createLoudnessAnalyzer(this.context.sampleRate).kWeighting;
+    const shelf = this.context.createIIRFilter([k.shelf.b0, k.shelf.b1, k.shelf.b2], [1, k.shelf.a1, k.shelf.a2]);
+    const highpass = this.context.createIIRFilter([k.highpass.b0, k.highpass.b1, k.highpass.b2], [1, k.highpass.a1, k.highpass.a2]);
+    const analyser = this.context.createAnalyser();
+    analyser.fftSize = 4096;
+    input.connect(shelf);
+    shelf.connect(highpass);
+    highpass.connect(analyser);
+    return analyser;
+  }
+
+  // Trims the chain output so it is as loud as the bypassed source. Levels are averaged over a
+  // couple of seconds and held through silence, so the trim follows the processing rather
+  // than the music.
+  setAutoGain(on: boolean) {
+    if (this.autoGainTimer !== null) window.clearInterval(this.autoGainTimer);
+    this.autoGainTimer = null;
+    this.dryEnergy = 0;
+    this.wetEnergy = 0;
+    this.autoGainDb = 0;
+    this.autoGain.gain.setTargetAtTime(1, this.context.currentTime, 0.05);
+    if (!on) return;
+
+    const data = new Float32Array(this.dryMeter.fftSize);
+    const meanSquare = (analyser: AnalyserNode) => {
+      analyser.getFloatTimeDomainData(data);
+      let sum = 0;
+      for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
+      return sum / data.length;
+    };
+    this.autoGainTimer = window.setInterval(() => {
+      const dry = meanSquare(this.dryMeter);
+      const wet = meanSquare(this.wetMeter);
+      if (dry < 1e-7 || wet < 1e-10) return; // Below -70 dB: hold
+      const k = this.dryEnergy ? 0.05 : 1;
+      this.dryEnergy += k * (dry - this.dryEnergy);
+      this.wetEnergy += k * (wet - this.wetEnergy);
+      this.autoGainDb = Math.max(-24, Math.min(24, 10 * Math.log10(this.dryEnergy / this.wetEnergy)));
+      this.autoGain.gain.setTargetAtTime(Math.pow(10, this.autoGainDb / 20), this.context.currentTime, 0.2);
+    }, 100);
+  }
+
+  // Current auto-gain trim in dB (0 while off)
+  getAutoGainDb() {
+    return this.autoGainDb;
   }
 
   async resume() {
@@ -119,69 +244,500 @@ class AudioEngine {
       this.sourceNode.disconnect();
     }
     this.sourceNode = this.context.createMediaElementSource(element);
+    this.sourceNode.connect(this.dryTap);
     this.reconnectChain();
   }
 
-  startOscillator() {
-      if (this.sourceNode) {
-          try { this.sourceNode.disconnect(); } catch(e) {}
+  // Second file used as the sidechain key. It only feeds the key bus, never the output.
+  // An element can only get one source node, so a new file in the same <audio> reuses it.
+  loadSidechainSource(element: HTMLAudioElement) {
+    if (this.keySourceNode?.mediaElement !== element) {
+      this.keySourceNode?.disconnect();
+      this.keySourceNode = this.context.createMediaElementSource(element);
+    }
+    this.keySourceNode.disconnect();
+    this.keySourceNode.connect(this.getSidechainBus(this.context, 1));
+  }
+
+  // Plays `note` on every enabled OSCILLATOR module, stealing the oldest voice past MAX_VOICES
+  noteOn(note: number, velocity = 1) {
+      if (this.heldNotes.has(note)) return;
+      this.heldNotes.add(note);
+      this.notifyNotes();
+      if (this.context.state !== 'running') this.resume();
+      this.currentModules.forEach(m => {
+          if (m.type === PluginType.OSCILLATOR && m.enabled) this.startVoice(m, note, noteToFreq(note), velocity);
+      });
+  }
+
+  noteOff(note: number) {
+      if (!this.heldNotes.delete(note)) return;
+      this.notifyNotes();
+      const t = this.context.currentTime;
+      this.synthVoices.forEach(voices => {
+          voices.get(note)?.stop(t);
+          voices.delete(note);
+      });
+  }
+
+  // Releases everything played, e.g. when the window loses focus with keys down
+  allNotesOff() {
+      Array.from(this.heldNotes).forEach(note => this.noteOff(note));
+  }
+
+  // Notes currently down. Returns the unsubscribe function.
+  subscribeNotes(listener: (notes: number[]) => void) {
+      this.noteListeners.add(listener);
+      listener(Array.from(this.heldNotes));
+      return () => { this.noteListeners.delete(listener); };
+  }
+
+  private notifyNotes() {
+      const notes = Array.from(this.heldNotes);
+      this.noteListeners.forEach(listener => listener(notes));
+  }
+
+  // Voices play into the group's synth bus ([input, bus, lfo, output]) so they follow its level
+  private startVoice(module: PluginModuleState, note: number, freq: number, velocity = 1) {
+      const nodes = this.pluginNodes.get(module.id);
+      if (!nodes || nodes.length < 4) return;
+      const t = this.context.currentTime;
+      let voices = this.synthVoices.get(module.id);
+      if (!voices) {
+          voices = new Map();
+          this.synthVoices.set(module.id, voices);
       }
-      const osc = this.context.createOscillator();
-      osc.type = 'sawtooth';
-      osc.start();
-      this.sourceNode = osc;
-      this.reconnectChain();
+      voices.get(note)?.stop(t);
+      voices.delete(note);
+      while (voices.size >= MAX_VOICES) {
+          const [oldest, voice] = voices.entries().next().value as [number, SynthVoice];
+          voice.stop(t);
+          voices.delete(oldest);
+      }
+      voices.set(note, createSynthVoice(this.context, module.params, freq, nodes[1], nodes[2], velocity));
+  }
+
+  // Starts, retunes, restarts (when the voice settings changed) or stops the held tone
+  private syncHoldVoice(module: PluginModuleState) {
+      const voices = this.synthVoices.get(module.id);
+      const hold = voices?.get(HOLD_NOTE);
+      const freq = module.params.frequency ?? 440;
+      if (!module.enabled || (module.params.hold || 0) < 0.5) {
+          hold?.stop(this.context.currentTime);
+          voices?.delete(HOLD_NOTE);
+          return;
+      }
+      if (hold && hold.key === synthVoiceKey(module.params)) {
+          hold.setFrequency(freq, this.context.currentTime);
+          return;
+      }
+      this.startVoice(module, HOLD_NOTE, freq);
+  }
+
+  setTempo(bpm: number) {
+      if (!Number.isFinite(bpm) || bpm === this.bpm) return;
+      this.bpm = bpm;
+      if (this.livePulse) this.livePulse.loopEnd = 60 / bpm;
+      this.currentModules.forEach(m => {
+          if (m.type === PluginType.DELAY && m.params.sync >= 0.5) this.updateParams(m);
+      });
+  }
+
+  async loadImpulse(file: File): Promise<ImpulseRef> {
+      const data = await file.arrayBuffer();
+      const buffer = await this.context.decodeAudioData(data);
+      const id = Math.random().toString(36).substring(2, 9);
+      this.impulseLibrary.set(id, buffer);
+      return { id, name: file.name, duration: buffer.duration };
+  }
+
+  hasImpulse(id: string) {
+      return this.impulseLibrary.has(id);
+  }
+
+  // Decodes a dropped file without adding it to any library (reference tracks for matching)
+  async decodeFile(file: File): Promise<AudioBuffer> {
+      return this.context.decodeAudioData(await file.arrayBuffer());
+  }
+
+  // Decodes the loaded source file for offline rendering
+  async decodeSource(url: string): Promise<AudioBuffer> {
+      const response = await fetch(url);
+      return this.context.decodeAudioData(await response.arrayBuffer());
+  }
+
+  // Bounces `source` through the module chain. The tail keeps reverb and delay decays.
+  async renderOffline(
+      modules: PluginModuleState[],
+      source: AudioBuffer,
+      tailSeconds = 3,
+      routing: RoutingGraph | null = null,
+      sidechainKey: AudioBuffer | null = null
+  ): Promise<AudioBuffer> {
+      const rate = source.sampleRate;
+      const offline = new OfflineAudioContext(2, Math.ceil((source.duration + tailSeconds) * rate), rate);
+      try {
+          await loadDspWorklet(offline);
+          this.workletContexts.add(offline);
+      } catch (e) {
+          console.warn('DSP worklet unavailable offline, rendering with native nodes', e);
+      }
+
+      const bufferSource = offline.createBufferSource();
+      bufferSource.buffer = source;
+      if (sidechainKey) {
+          const keySource = offline.createBufferSource();
+          keySource.buffer = sidechainKey;
+          keySource.connect(this.getSidechainBus(offline, 1));
+          keySource.start(0);
+      }
+      const chain = this.buildChain(offline, modules, routing, bufferSource, offline.destination);
+      modules.forEach(module => {
+          const nodes = chain.get(module.id);
+          if (nodes) this.applyParams(offline, module, nodes);
+      });
+
+      bufferSource.start(0);
+      return offline.startRendering();
+  }
+
+  // Plays a test signal through the chain offline, or through `module` alone (bypass ignored),
+  // and deconvolves the render into the measured response with the reported latency taken out
+  async measureChain(signal: number, module: PluginModuleState | null = null): Promise<ChainMeasurement> {
+      const modules = module ? [{ ...module, enabled: true }] : this.currentModules;
+      const routing = module ? null : this.currentRouting;
+      const excitation = createTestSignal(this.context, signal);
+      const rendered = await this.renderOffline(modules, excitation, MEASURE_TAIL, routing);
+      return measureResponse(excitation, rendered, this.getLatencyReport(modules, routing).total, signal, module ? 'MODULE' : 'CHAIN');
   }
 
   private reconnectChain() {
     this.updatePluginChain(this.currentModules);
   }
 
-  updatePluginChain(modules: PluginModuleState[]) {
+  // Reconciles the live graph with `modules` (and `routing`, when the project uses the routing graph):
+  // node groups are reused by id, only rebuilt when their structure changes, and only the edges
+  // that changed are rewired (with short fades)
+  updatePluginChain(modules: PluginModuleState[], routing: RoutingGraph | null = this.currentRouting) {
     this.currentModules = modules;
-    // 1. Disconnect existing chain
-    if (this.sourceNode) this.sourceNode.disconnect();
-    this.pluginNodes.forEach(nodes => nodes.forEach(n => n.disconnect()));
-    this.pluginNodes.clear();
+    this.currentRouting = routing;
+    const ctx = this.context;
+    const fade = ctx.state === 'running' ? EDGE_FADE : 0;
+    const specs = this.getGroupSpecs(ctx, modules, routing);
+
+    // 1. Drop groups that are gone or whose structure changed
+    this.pluginNodes.forEach((nodes, id) => {
+      const spec = specs.get(id);
+      if (!spec || this.groupKeys.get(id) !== spec.key) {
+        this.disposeGroup(id, nodes, fade);
+      }
+    });
 
-    let previousNode: AudioNode | null = this.sourceNode;
+    // 2. Create groups for new (or restructured) modules and routing nodes, bypassed ones stay alive for re-enabling
+    specs.forEach((spec, id) => {
+      if (this.pluginNodes.has(id)) return;
+      this.pluginNodes.set(id, spec.create());
+      this.groupKeys.set(id, spec.key);
+    });
+    this.applyRoutingParams(routing, this.pluginNodes);
+    modules.forEach(m => {
+      if (m.type === PluginType.OSCILLATOR) this.syncHoldVoice(m);
+    });
 
-    // 2. Create nodes for each module
+    // 3. Desired edges, source -> ... -> master
+    const desired = this.planEdges(modules, routing, this.pluginNodes, this.sourceNode, this.chainOutput);
+
+    // 4. Keep matching edges (retrimming their level), fade out stale ones and fade in the new ones
+    const t = ctx.currentTime;
+    this.edges.forEach((edge, key) => {
+      const next = desired.get(key);
+      if (next && next.from === edge.from && next.to === edge.to) {
+        if (next.level !== edge.level) {
+          edge.level = next.level;
+          edge.gain.gain.setTargetAtTime(next.level, t, 0.02);
+        }
+        desired.delete(key);
+      } else {
+        this.removeEdge(key, fade);
+      }
+    });
+    desired.forEach(({ from, to, level }, key) => this.addEdge(key, from, to, level, fade));
+  }
+
+  // Everything the graph is built from: one group per module, plus one per SPLIT/MERGE routing node
+  private getGroupSpecs(ctx: BaseAudioContext, modules: PluginModuleState[], routing: RoutingGraph | null) {
+    const specs: Map<string, { key: string; create: () => AudioNode[] }> = new Map();
     modules.forEach(module => {
-      if (!module.enabled) return;
+      specs.set(module.id, { key: this.getStructureKey(ctx, module), create: () => this.createNodesForModule(ctx, module) });
+    });
+    routing?.nodes.forEach(node => {
+      if (node.kind !== 'SPLIT' && node.kind !== 'MERGE') return;
+      specs.set(node.id, { key: `${node.kind}|${node.splitMode || ''}`, create: () => this.createRoutingNodes(ctx, node) });
+    });
+    return specs;
+  }
 
-      const nodes = this.createNodesForModule(module);
-      this.pluginNodes.set(module.id, nodes);
+  // Connections between groups, keyed so unchanged connections keep their key across rebuilds
+  private planEdges(
+    modules: PluginModuleState[],
+    routing: RoutingGraph | null,
+    groups: Map<string, AudioNode[]>,
+    source: AudioNode | null,
+    destination: AudioNode
+  ): Map<string, { from: AudioNode; to: AudioNode; level: number }> {
+    const desired: Map<string, { from: AudioNode; to: AudioNode; level: number }> = new Map();
+
+    if (!routing) {
+      // Linear chain along the enabled modules
+      let previousId = 'source';
+      let previousNode: AudioNode | null = source;
+      modules.forEach(module => {
+        const nodes = groups.get(module.id);
+        if (!module.enabled || !nodes || nodes.length === 0) return;
+        const io = this.getGroupIO(module, nodes);
+        if (previousNode) desired.set(`${previousId}->${module.id}`, { from: previousNode, to: io.input, level: 1 });
+        previousId = module.id;
+        previousNode = io.output;
+      });
+      if (previousNode) desired.set(`${previousId}->master`, { from: previousNode, to: destination, level: 1 });
+      return desired;
+    }
 
-      if (nodes.length > 0 && previousNode) {
-        // For parallel processing modules (Multiband, Hybrid with Split, etc)
-        // Input is nodes[0], Output is nodes[last].
-        const inputNode = nodes[0];
-        const outputNode = nodes[nodes.length - 1];
-        
-        if (module.type === PluginType.STEREO_IMAGER || module.type === PluginType.HYBRID_EQ_DYN || module.type === PluginType.MULTIBAND) {
-             previousNode.connect(inputNode);
-             previousNode = outputNode;
-        } else if (module.type === PluginType.CHORUS || module.type === PluginType.FLANGER || module.type === PluginType.DOUBLER) {
-            previousNode.connect(nodes[0]);
-            previousNode = nodes[nodes.length - 1]; 
-        } else {
-            previousNode.connect(nodes[0]);
-            for (let i = 0; i < nodes.length - 1; i++) {
-              nodes[i].connect(nodes[i+1]);
-            }
-            previousNode = nodes[nodes.length - 1];
-        }
+    const moduleById = new Map(modules.map(m => [m.id, m] as [string, PluginModuleState]));
+    const nodeById = new Map(routing.nodes.map(n => [n.id, n] as [string, RoutingNode]));
+    const activeModule = (id: string) => {
+      const module = moduleById.get(id);
+      const nodes = groups.get(id);
+      return module && module.enabled && nodes && nodes.length > 0 ? this.getGroupIO(module, nodes) : null;
+    };
+
+    // Audio leaving a node's port. Bypassed modules pass on whatever feeds them.
+    const outputsOf = (id: string, port: number, seen: Set<string>): { key: string; node: AudioNode; level: number }[] => {
+      const node = nodeById.get(id);
+      if (!node || seen.has(id)) return [];
+      if (node.kind === 'INPUT') return source ? [{ key: 'source', node: source, level: 1 }] : [];
+      if (node.kind === 'MODULE') {
+        const io = activeModule(id);
+        if (io) return [{ key: id, node: io.output, level: 1 }];
+        const next = new Set(seen).add(id);
+        return routing.edges
+          .filter(e => e.to === id)
+          .flatMap(e => outputsOf(e.from, e.fromPort || 0, next).map(o => ({ ...o, level: o.level * dbToGain(e.gain) })));
       }
+      const nodes = groups.get(id);
+      if (!nodes || node.kind === 'OUTPUT') return [];
+      if (node.kind === 'MERGE' || (node.splitMode || 'PARALLEL') === 'PARALLEL') return [{ key: id, node: nodes[0], level: 1 }];
+      // LR/MS/FREQ splits keep their two port outputs at indices 1 and 2
+      const index = Math.min(1, Math.max(0, port));
+      return [{ key: `${id}:${index}`, node: nodes[index + 1], level: 1 }];
+    };
+
+    const inputOf = (id: string): AudioNode | null => {
+      const node = nodeById.get(id);
+      if (!node) return null;
+      if (node.kind === 'OUTPUT') return destination;
+      if (node.kind === 'MODULE') return activeModule(id)?.input || null;
+      return groups.get(id)?.[0] || null;
+    };
+
+    routing.edges.forEach(edge => {
+      const to = inputOf(edge.to);
+      if (!to) return;
+      outputsOf(edge.from, edge.fromPort || 0, new Set()).forEach(src => {
+        const key = `${src.key}->${edge.to}`;
+        const level = src.level * dbToGain(edge.gain);
+        const existing = desired.get(key);
+        if (existing) existing.level += level;
+        else desired.set(key, { from: src.node, to, level });
+      });
     });
+    return desired;
+  }
+
+  // Split groups: [Input, Port0, Port1, ...internals]. Every port carries a stereo bus, so the
+  // branches can be summed straight back together by a MERGE.
+  private createRoutingNodes(ctx: BaseAudioContext, node: RoutingNode): AudioNode[] {
+    const input = ctx.createGain();
+    if (node.kind === 'MERGE') return [input];
+
+    const mode = node.splitMode || 'PARALLEL';
+    if (mode === 'PARALLEL') return [input];
+
+    if (mode === 'FREQ') {
+      // LR24: the low and high outputs sum back to an allpass response
+      const makeBranch = (type: BiquadFilterType) => {
+        const out = ctx.createGain();
+        const filters = [0, 1].map(() => {
+          const f = ctx.createBiquadFilter();
+          f.type = type;
+          f.Q.value = 20 * Math.log10(CROSSOVER_QS[2][0]); // Native LP/HP Q is in dB
+          f.frequency.value = node.splitFreq || DEFAULT_SPLIT_FREQ;
+          (f as any)._xover = 0;
+          return f;
+        });
+        input.connect(filters[0]);
+        filters[0].connect(filters[1]);
+        filters[1].connect(out);
+        return { out, filters };
+      };
+      const low = makeBranch('lowpass');
+      const high = makeBranch('highpass');
+      return [input, low.out, high.out, ...low.filters, ...high.filters];
+    }
 
-    // 3. Connect last to master
-    if (previousNode) {
-      previousNode.connect(this.masterGain);
+    const splitter = ctx.createChannelSplitter(2);
+    input.connect(splitter);
+
+    if (mode === 'LR') {
+      // Each side stays on its own channel, the other one is left silent
+      const left = ctx.createChannelMerger(2);
+      const right = ctx.createChannelMerger(2);
+      splitter.connect(left, 0, 0);
+      splitter.connect(right, 1, 1);
+      return [input, left, right, splitter];
     }
+
+    // MS: Mid = (L+R)/2 on both channels, Side = (L-R)/2 on L and inverted on R, so Mid + Side = L/R
+    const mid = ctx.createGain();
+    mid.gain.value = 0.5;
+    const side = ctx.createGain();
+    side.gain.value = 0.5;
+    const sideInvert = ctx.createGain();
+    sideInvert.gain.value = -1;
+    [mid, side].forEach(g => {
+      g.channelCount = 1;
+      g.channelCountMode = 'explicit';
+      g.channelInterpretation = 'discrete';
+    });
+    splitter.connect(mid, 0);
+    splitter.connect(mid, 1);
+    splitter.connect(side, 0);
+    splitter.connect(sideInvert, 1);
+    sideInvert.connect(side);
+
+    const midOut = ctx.createChannelMerger(2);
+    mid.connect(midOut, 0, 0);
+    mid.connect(midOut, 0, 1);
+    const sideOut = ctx.createChannelMerger(2);
+    const sideOutInvert = ctx.createGain();
+    sideOutInvert.gain.value = -1;
+    side.connect(sideOut, 0, 0);
+    side.connect(sideOutInvert);
+    sideOutInvert.connect(sideOut, 0, 1);
+    return [input, midOut, sideOut, splitter, mid, side, sideInvert, sideOutInvert];
   }
 
-  private createNodesForModule(module: PluginModuleState): AudioNode[] {
+  private applyRoutingParams(routing: RoutingGraph | null, groups: Map<string, AudioNode[]>) {
+    routing?.nodes.forEach(node => {
+      if (node.kind !== 'SPLIT' || node.splitMode !== 'FREQ') return;
+      const freq = Math.max(20, Math.min(20000, node.splitFreq || DEFAULT_SPLIT_FREQ));
+      groups.get(node.id)?.forEach(n => {
+        if (n instanceof BiquadFilterNode && (n as any)._xover !== undefined) {
+          n.frequency.setTargetAtTime(freq, n.context.currentTime, 0.05);
+        }
+      });
+    });
+  }
+
+  // Anything that changes which nodes a module is built from; everything else goes through updateParams
+  private getStructureKey(ctx: BaseAudioContext, module: PluginModuleState) {
+    const parts: string[] = [module.type, (module.nestedModules || []).join('+')];
+    if ([PluginType.MULTIBAND, PluginType.COMPRESSOR, PluginType.SATURATION].includes(module.type)) {
+      const worklet = this.workletContexts.has(ctx);
+      parts.push(worklet ? 'worklet' : 'native');
+      if (module.type === PluginType.MULTIBAND && !worklet) {
+        parts.push(isCrossoverMode(module.params) ? `lr${getCrossoverOrder(module.params)}` : 'parallel');
+      }
+    }
+    // Native band groups have a node set per band; the worklets take any count by message
+    if (module.type === PluginType.SHINE || module.type === PluginType.HYBRID_EQ_DYN || (module.type === PluginType.MULTIBAND && !this.workletContexts.has(ctx))) {
+      parts.push(`bands${getBandCount(module.params)}`);
+    }
+    if (module.type === PluginType.VISUAL_EQ) {
+      // Without the worklet the bands are native nodes, one per stage, so the shapes decide the count
+      if (isLinearPhase(module.params)) parts.push('linear');
+      else if (this.workletContexts.has(ctx)) parts.push('worklet');
+      else parts.push(`native:${this.getEqStageSignature(module.params)}`);
+    }
+    return parts.join('|');
+  }
+
+  // Groups are wired internally on creation; the chain only connects their ends
+  private getGroupIO(module: PluginModuleState, nodes: AudioNode[]) {
+    // Native multiband keeps its summing output at index 1
+    const output = module.type === PluginType.MULTIBAND && nodes.length > 1 ? nodes[1] : nodes[nodes.length - 1];
+    return { input: nodes[0], output };
+  }
+
+  private addEdge(key: string, from: AudioNode, to: AudioNode, level: number, fade: number) {
+    const gain = this.context.createGain();
+    const t = this.context.currentTime;
+    gain.gain.setValueAtTime(fade > 0 ? 0 : level, t);
+    if (fade > 0) gain.gain.linearRampToValueAtTime(level, t + fade);
+    from.connect(gain);
+    gain.connect(to);
+    this.edges.set(key, { from, to, gain, level });
+  }
+
+  private removeEdge(key: string, fade: number) {
+    const edge = this.edges.get(key);
+    if (!edge) return;
+    this.edges.delete(key);
+    const t = this.context.currentTime;
+    edge.gain.gain.cancelScheduledValues(t);
+    edge.gain.gain.setValueAtTime(edge.gain.gain.value, t);
+    edge.gain.gain.linearRampToValueAtTime(0, t + fade);
+    setTimeout(() => {
+      try { edge.from.disconnect(edge.gain); } catch(e) {}
+      edge.gain.disconnect();
+    }, fade * 1000 + 20);
+  }
+
+  // Tears a group down once its edges have faded, stopping any LFO oscillators inside it
+  private disposeGroup(id: string, nodes: AudioNode[], fade: number) {
+    this.pluginNodes.delete(id);
+    this.groupKeys.delete(id);
+    this.gainReduction.delete(id);
+    this.dynamicEqGains.delete(id);
+    clearTimeout(this.reverbTimers.get(id));
+    this.reverbTimers.delete(id);
+    clearTimeout(this.firTimers.get(id));
+    this.firTimers.delete(id);
+    this.synthVoices.get(id)?.forEach(voice => voice.stop(this.context.currentTime));
+    this.synthVoices.delete(id);
+    setTimeout(() => {
+      nodes.forEach(n => {
+        if (n instanceof AudioWorkletNode) this.routeSidechain(this.context, n, 0);
+        n.disconnect();
+        if (n instanceof OscillatorNode) {
+          try { n.stop(); } catch(e) {}
+        }
+      });
+    }, fade * 1000 + 40);
+  }
+
+  // Builds the whole graph in one pass against any context (used for offline renders)
+  private buildChain(
+    ctx: BaseAudioContext,
+    modules: PluginModuleState[],
+    routing: RoutingGraph | null,
+    source: AudioNode | null,
+    destination: AudioNode
+  ): Map<string, AudioNode[]> {
+    const chain: Map<string, AudioNode[]> = new Map();
+    this.getGroupSpecs(ctx, modules, routing).forEach((spec, id) => chain.set(id, spec.create()));
+    this.applyRoutingParams(routing, chain);
+
+    this.planEdges(modules, routing, chain, source, destination).forEach(({ from, to, level }) => {
+      const gain = ctx.createGain();
+      gain.gain.value = level;
+      from.connect(gain);
+      gain.connect(to);
+    });
+    return chain;
+  }
+
+  private createNodesForModule(ctx: BaseAudioContext, module: PluginModuleState): AudioNode[] {
     const { type, params, nestedModules } = module;
     const nodes: AudioNode[] = [];
 
@@ -195,19 +751,28 @@ class AudioEngine {
       case PluginType.VISUAL_EQ:
       case PluginType.SHINE:
       case PluginType.HYBRID_EQ_DYN: {
+        if (type === PluginType.VISUAL_EQ && isLinearPhase(params)) {
+            return this.createLinearPhaseEqNodes(ctx, params, getMatchFilterCurve(module));
+        }
+        if (type === PluginType.VISUAL_EQ && this.workletContexts.has(ctx)) {
+            const node = this.createWorkletNode(ctx, 'sf-eq', {}, { config: this.getEqConfig(module) });
+            this.trackGainReduction(ctx, node, module.id);
+            return [node];
+        }
+        if (type === PluginType.VISUAL_EQ) {
+            const stages = this.createEqStageNodes(ctx, params);
+            const gain = ctx.createGain();
+            gain.gain.value = Math.pow(10, v('output', 0) / 20);
+            stages[stages.length - 1].connect(gain);
+            stages.push(gain);
+            return stages;
+        }
+
         // 1. Filters
-        for (let i = 1; i <= 7; i++) {
-            const filter = this.context.createBiquadFilter();
-            
-            if (type === PluginType.SHINE) {
-                 if (i === 1) filter.type = 'lowshelf';
-                 else if (i === 7) filter.type = 'highshelf';
-                 else filter.type = 'peaking';
-            } else {
-                if (i === 1) filter.type = 'lowshelf';
-                else if (i === 7) filter.type = 'highshelf';
-                else filter.type = 'peaking';
-            }
+        for (const i of getBands(params)) {
+            const filter = ctx.createBiquadFilter();
+            const shape = getBandShape(params, i);
+            filter.type = shape === 'LOW_SHELF' ? 'lowshelf' : shape === 'HIGH_SHELF' ? 'highshelf' : 'peaking';
             
             filter.frequency.value = v(`b${i}Freq`, 1000);
             filter.gain.value = v(`b${i}Gain`, 0);
@@ -222,19 +787,18 @@ class AudioEngine {
         const hasComp = isHybrid && (!nestedModules || nestedModules.includes(PluginType.COMPRESSOR));
         // NOTE: Multiband inside hybrid reuses global comp for now, as true MB inside Hybrid is too complex for this chain logic
         // unless we swap the whole block, but for Hybrid "Smart", it's typically a channel strip comp.
-        const hasReverb = isHybrid && nestedModules?.includes(PluginType.REVERB);
         const hasDelay = isHybrid && nestedModules?.includes(PluginType.DELAY);
         const hasShine = isHybrid && nestedModules?.includes(PluginType.SHINE);
 
         if (hasSat) {
-            const shaper = this.context.createWaveShaper();
-            shaper.curve = this.makeDistortionCurve(0, module.saturationMode || 'TUBE'); 
-            shaper.oversample = '4x';
+            const shaper = ctx.createWaveShaper();
+            shaper.curve = makeDistortionCurve(0, module.saturationMode || 'TUBE'); 
+            shaper.oversample = nativeOversample(oversampleFactor(v('oversampleSat', DEFAULT_OVERSAMPLE)));
             nodes.push(shaper);
         }
 
         if (isShine || hasShine) {
-            const exciter = this.context.createBiquadFilter();
+            const exciter = ctx.createBiquadFilter();
             exciter.type = 'highshelf';
             exciter.frequency.value = 8000;
             exciter.gain.value = 0; // Controlled by params
@@ -242,29 +806,24 @@ class AudioEngine {
         }
 
         if (hasComp) {
-            const comp = this.context.createDynamicsCompressor();
+            const comp = ctx.createDynamicsCompressor();
             comp.threshold.value = -24;
             comp.ratio.value = 1;
             nodes.push(comp);
         }
 
         if (hasDelay) {
-            const delay = this.context.createDelay(5.0);
+            const delay = ctx.createDelay(5.0);
             delay.delayTime.value = 0.3;
-            const fb = this.context.createGain();
+            const fb = ctx.createGain();
             fb.gain.value = 0.3;
             delay.connect(fb);
             fb.connect(delay);
             nodes.push(delay);
         }
 
-        if (hasReverb) {
-            const convolver = this.context.createConvolver();
-            if (this.impulseBuffer) convolver.buffer = this.impulseBuffer;
-            nodes.push(convolver);
-        }
         
-        const gain = this.context.createGain();
+        const gain = ctx.createGain();
         gain.gain.value = Math.pow(10, v('output', 0) / 20);
         nodes.push(gain);
 
@@ -277,7 +836,7 @@ class AudioEngine {
              let lastNode = nodes[nodes.length - 1];
 
              if (nestedModules.includes(PluginType.STEREO_IMAGER)) {
-                 const imagerNodes = this.createImagerNodes(params);
+                 const imagerNodes = this.createImagerNodes(ctx, params);
                  imagerNodes.forEach(n => (n as any)._hybridType = 'IMAGER'); 
                  lastNode.connect(imagerNodes[0]);
                  nodes.push(...imagerNodes);
@@ -285,7 +844,7 @@ class AudioEngine {
              }
 
              if (nestedModules.includes(PluginType.DOUBLER)) {
-                 const doublerNodes = this.createDoublerNodes(params);
+                 const doublerNodes = this.createDoublerNodes(ctx, params);
                  doublerNodes.forEach(n => (n as any)._hybridType = 'DOUBLER');
                  lastNode.connect(doublerNodes[0]);
                  nodes.push(...doublerNodes);
@@ -293,29 +852,58 @@ class AudioEngine {
              }
 
              if (nestedModules.includes(PluginType.CHORUS)) {
-                 const chorusNodes = this.createChorusNodes(params);
+                 const chorusNodes = this.createChorusNodes(ctx, params);
                  chorusNodes.forEach(n => (n as any)._hybridType = 'CHORUS');
                  lastNode.connect(chorusNodes[0]);
                  nodes.push(...chorusNodes);
                  lastNode = chorusNodes[chorusNodes.length - 1];
              }
+
+             if (nestedModules.includes(PluginType.REVERB)) {
+                 const reverbNodes = this.createReverbNodes(ctx, params, module.impulse?.id);
+                 reverbNodes.forEach(n => (n as any)._hybridType = 'REVERB');
+                 lastNode.connect(reverbNodes[0]);
+                 nodes.push(...reverbNodes);
+                 lastNode = reverbNodes[reverbNodes.length - 1];
+             }
         }
 
         return nodes;
       }
       
       case PluginType.MULTIBAND: {
-          return this.createMultibandNodes(params);
+          if (this.workletContexts.has(ctx)) return [this.createWorkletMultiband(ctx, module)];
+          return this.createMultibandNodes(ctx, module);
       }
 
       case PluginType.COMPRESSOR: {
-        const comp = this.context.createDynamicsCompressor();
+        if (this.workletContexts.has(ctx)) {
+            const source = Math.round(v('scSource', 0));
+            const node = this.createWorkletNode(ctx, 'sf-compressor', {
+                threshold: v('threshold', -24),
+                ratio: v('ratio', 4),
+                knee: v('knee', 6),
+                attack: v('attack', 0.003),
+                release: v('release', 0.25),
+                makeup: v('makeup', 0),
+                lookahead: v('lookahead', 0),
+                sidechain: source > 0 ? 1 : 0,
+                scHpf: v('scHpf', 20),
+                listen: v('scListen', 0)
+            }, undefined, 2);
+            this.routeSidechain(ctx, node, source);
+            this.trackGainReduction(ctx, node, module.id);
+            return [node];
+        }
+
+        const comp = ctx.createDynamicsCompressor();
         comp.threshold.value = v('threshold', -24);
         comp.ratio.value = v('ratio', 4);
         comp.attack.value = v('attack', 0.003);
         comp.release.value = v('release', 0.25);
+        comp.knee.value = v('knee', 6);
         
-        const makeup = this.context.createGain();
+        const makeup = ctx.createGain();
         makeup.gain.value = Math.pow(10, v('makeup', 0) / 20);
         
         comp.connect(makeup);
@@ -323,11 +911,19 @@ class AudioEngine {
       }
 
       case PluginType.SATURATION: {
-          const shaper = this.context.createWaveShaper();
-          shaper.curve = this.makeDistortionCurve(v('drive', 20), module.saturationMode || 'TUBE');
-          shaper.oversample = '4x';
+          if (this.workletContexts.has(ctx)) {
+              return [this.createWorkletNode(ctx, 'sf-saturator', {
+                  drive: v('drive', 20),
+                  output: v('output', 0),
+                  oversample: oversampleFactor(v('oversample', DEFAULT_OVERSAMPLE))
+              }, { mode: module.saturationMode || 'TUBE' })];
+          }
+
+          const shaper = ctx.createWaveShaper();
+          shaper.curve = makeDistortionCurve(v('drive', 20), module.saturationMode || 'TUBE');
+          shaper.oversample = nativeOversample(oversampleFactor(v('oversample', DEFAULT_OVERSAMPLE)));
           
-          const gain = this.context.createGain();
+          const gain = ctx.createGain();
           gain.gain.value = Math.pow(10, v('output', 0) / 20);
           
           shaper.connect(gain);
@@ -335,41 +931,43 @@ class AudioEngine {
       }
 
       case PluginType.DELAY: {
-        const delay = this.context.createDelay(5.0);
-        delay.delayTime.value = v('time', 0.3);
-        const feedback = this.context.createGain();
-        feedback.gain.value = v('feedback', 0.4);
-        delay.connect(feedback);
-        feedback.connect(delay);
-        return [delay];
+        return this.createDelayNodes(ctx, params);
       }
 
       case PluginType.REVERB: {
-        const convolver = this.context.createConvolver();
-        if (this.impulseBuffer) convolver.buffer = this.impulseBuffer;
-        return [convolver];
+        return this.createReverbNodes(ctx, params, module.impulse?.id);
       }
       
       case PluginType.OSCILLATOR: {
-          const gain = this.context.createGain();
-          gain.gain.value = v('gain', 0.5);
-          return [gain];
+          // Incoming audio passes through; voices are added on the bus, see startVoice
+          const input = ctx.createGain();
+          const bus = ctx.createGain();
+          const lfo = ctx.createOscillator();
+          const output = ctx.createGain();
+          bus.gain.value = v('gain', 0.5);
+          lfo.frequency.value = v('pwmRate', 0.5);
+          lfo.start();
+          input.connect(output);
+          bus.connect(output);
+          // Renders have no keyboard, so only the held tone is played into them
+          if (ctx !== this.context && v('hold', 0) >= 0.5) createSynthVoice(ctx, params, v('frequency', 440), bus, lfo);
+          return [input, bus, lfo, output];
       }
 
       case PluginType.STEREO_IMAGER: {
-          return this.createImagerNodes(params);
+          return this.createImagerNodes(ctx, params);
       }
 
       case PluginType.CHORUS: {
-          return this.createChorusNodes(params);
+          return this.createChorusNodes(ctx, params);
       }
 
       case PluginType.FLANGER: {
-          return this.createFlangerNodes(params);
+          return this.createFlangerNodes(ctx, params);
       }
 
       case PluginType.DOUBLER: {
-          return this.createDoublerNodes(params);
+          return this.createDoublerNodes(ctx, params);
       }
 
       default:
@@ -379,13 +977,231 @@ class AudioEngine {
 
   // --- Node Creation Helpers ---
 
-  private createMultibandNodes(params: any): AudioNode[] {
+  // Dynamics processors take a second input for the sidechain key
+  private createWorkletNode(ctx: BaseAudioContext, name: string, parameterData: Record<string, number>, processorOptions?: any, numberOfInputs = 1): AudioWorkletNode {
+      return new AudioWorkletNode(ctx, name, {
+          numberOfInputs,
+          numberOfOutputs: 1,
+          outputChannelCount: [2],
+          parameterData,
+          processorOptions
+      });
+  }
+
+  private createWorkletMultiband(ctx: BaseAudioContext, module: PluginModuleState): AudioWorkletNode {
+      const node = this.createWorkletNode(ctx, 'sf-multiband', {}, { config: this.getMultibandConfig(module) }, 2);
+      this.routeSidechain(ctx, node, Math.round(module.params.scSource || 0));
+      this.trackGainReduction(ctx, node, module.id);
+      return node;
+  }
+
+  // Offline renders report too, but only the live graph feeds the meters. Dynamics modules
+  // report gain reduction, the worklet EQ the gain each band currently applies.
+  private trackGainReduction(ctx: BaseAudioContext, node: AudioWorkletNode, moduleId: string) {
+      if (ctx !== this.context) return;
+      node.port.onmessage = (e) => {
+          if (e.data?.type === 'gr') this.gainReduction.set(moduleId, e.data.values);
+          if (e.data?.type === 'eqGains') this.dynamicEqGains.set(moduleId, e.data.values);
+      };
+  }
+
+  private getEqConfig(module: PluginModuleState) {
+      const params = module.params;
+      const v = (key: string, def: number) => (typeof params[key] === 'number' && Number.isFinite(params[key]) ? params[key] : def);
+      const bands = [];
+      for (const i of getBands(params)) {
+          bands.push({
+              shape: getBandShape(params, i),
+              slope: getCutSlope(params, i),
+              freq: v(`b${i}Freq`, 1000),
+              q: v(`b${i}Q`, 1.0),
+              gain: v(`b${i}Gain`, 0),
+              channel: getBandChannel(params, i),
+              dynamic: isDynamicBand(params, i),
+              threshold: v(`b${i}Dyn`, 0),
+              ratio: v(`b${i}Ratio`, 4),
+              attack: v(`b${i}Attack`, 0.01),
+              release: v(`b${i}Release`, 0.1)
+          });
+      }
+      return { type: 'config', bands, output: v('output', 0) };
+  }
+
+  // Key bus for a sidechain source (1 = key file, 2 = test pulse), created on first use per context
+  private getSidechainBus(ctx: BaseAudioContext, source: number): GainNode {
+      let buses = this.sidechainBuses.get(ctx);
+      if (!buses) {
+          const file = ctx.createGain();
+          const pulse = ctx.createGain();
+          const player = ctx.createBufferSource();
+          player.buffer = this.createPulseBuffer(ctx);
+          player.loop = true;
+          player.loopEnd = 60 / this.bpm;
+          player.connect(pulse);
+          player.start(0);
+          if (ctx === this.context) this.livePulse = player;
+          buses = [file, pulse];
+          this.sidechainBuses.set(ctx, buses);
+      }
+      return buses[source === 2 ? 1 : 0];
+  }
+
+  // One kick-like hit per beat: a 150 -> 50 Hz sine sweep with a fast decay. Long enough for 20 BPM.
+  private createPulseBuffer(ctx: BaseAudioContext): AudioBuffer {
+      const rate = ctx.sampleRate;
+      const buffer = ctx.createBuffer(1, rate * 3, rate);
+      const data = buffer.getChannelData(0);
+      let phase = 0;
+      for (let i = 0; i < Math.round(rate * 0.3); i++) {
+          const time = i / rate;
+          phase += (2 * Math.PI * (50 + 100 * Math.exp(-time * 30))) / rate;
+          data[i] = Math.sin(phase) * Math.exp(-time * 12);
+      }
+      return buffer;
+  }
+
+  // Points input 1 of a dynamics worklet at the selected key bus (0 = none, keys off its own input)
+  private routeSidechain(ctx: BaseAudioContext, node: AudioWorkletNode, source: number) {
+      const previous = (node as any)._scSource || 0;
+      if (previous === source) return;
+      if (previous) {
+          try { this.getSidechainBus(ctx, previous).disconnect(node, 0, 1); } catch(e) {}
+      }
+      if (source) this.getSidechainBus(ctx, source).connect(node, 0, 1);
+      (node as any)._scSource = source;
+  }
+
+  private postMultibandConfig(node: AudioWorkletNode, module: PluginModuleState) {
+      node.port.postMessage(this.getMultibandConfig(module));
+  }
+
+  private getMultibandConfig(module: PluginModuleState) {
+      const params = module.params;
+      const v = (key: string, def: number) => (typeof params[key] === 'number' && Number.isFinite(params[key]) ? params[key] : def);
+      const bands = [];
+      for (const i of getBands(params)) {
+          bands.push({
+              freq: v(`b${i}Freq`, 1000),
+              q: v(`b${i}Q`, 1.0),
+              threshold: v(`b${i}Dyn`, -24),
+              ratio: v(`b${i}Ratio`, 4),
+              attack: v(`b${i}Attack`, 0.01),
+              release: v(`b${i}Release`, 0.2),
+              gain: v(`b${i}Gain`, 0)
+          });
+      }
+      return {
+          type: 'config',
+          mode: isCrossoverMode(params) ? 'crossover' : 'parallel',
+          order: getCrossoverOrder(params),
+          crossovers: getCrossovers(params, bands.length),
+          voicing: getMultibandVoicing(module.multibandStyle),
+          bands,
+          output: v('output', 0),
+          sidechain: { enabled: v('scSource', 0) >= 0.5, hpf: v('scHpf', 20), listen: v('scListen', 0) >= 0.5 }
+      };
+  }
+
+  private setWorkletParam(node: AudioWorkletNode, name: string, value: number, t: number, timeConstant = 0.05) {
+      const param = node.parameters.get(name);
+      if (param) param.setTargetAtTime(value, t, timeConstant);
+  }
+
+  // Native Linkwitz-Riley split: each band gets its LP/HP cascade plus allpass compensation
+  // for every crossover above it, so unity bands sum flat.
+  // Structure: [Input, Output, ...(Compressor, Gain) per band, ...crossover filters]
+  private createCrossoverMultibandNodes(ctx: BaseAudioContext, module: PluginModuleState): AudioNode[] {
+      const params = module.params;
+      const voicing = getMultibandVoicing(module.multibandStyle);
+      const v = (key: string, def: number) => (typeof params[key] === 'number' ? params[key] : def);
+      const crossovers = getCrossovers(params, getBandCount(params));
+      const qs = CROSSOVER_QS[getCrossoverOrder(params)];
+
+      const input = ctx.createGain();
+      const output = ctx.createGain();
+      const bandNodes: AudioNode[] = [input, output];
+      const filterNodes: AudioNode[] = [];
+
+      // LP/HP Q is specified in dB for BiquadFilterNode, allpass Q is linear
+      const makeSection = (type: BiquadFilterType, xover: number): BiquadFilterNode[] => {
+          const section: BiquadFilterNode[] = [];
+          qs.forEach(q => {
+              const copies = type === 'allpass' ? 1 : 2;
+              for (let c = 0; c < copies; c++) {
+                  const f = ctx.createBiquadFilter();
+                  f.type = type;
+                  f.frequency.value = crossovers[xover];
+                  f.Q.value = type === 'allpass' ? q : 20 * Math.log10(q);
+                  (f as any)._xover = xover;
+                  section.push(f);
+              }
+          });
+          for (let i = 0; i < section.length - 1; i++) section[i].connect(section[i + 1]);
+          filterNodes.push(...section);
+          return section;
+      };
+
+      let rest: AudioNode = input;
+      for (let i = 0; i <= crossovers.length; i++) {
+          let bandOut: AudioNode;
+          if (i < crossovers.length) {
+              const lp = makeSection('lowpass', i);
+              const hp = makeSection('highpass', i);
+              rest.connect(lp[0]);
+              rest.connect(hp[0]);
+              bandOut = lp[lp.length - 1];
+              rest = hp[hp.length - 1];
+              for (let j = i + 1; j < crossovers.length; j++) {
+                  const ap = makeSection('allpass', j);
+                  bandOut.connect(ap[0]);
+                  bandOut = ap[ap.length - 1];
+              }
+          } else {
+              bandOut = rest;
+          }
+
+          const comp = ctx.createDynamicsCompressor();
+          this.voiceBandCompressor(comp, params, i + 1, voicing);
+          const bandGain = ctx.createGain();
+          bandGain.gain.value = Math.pow(10, v(`b${i + 1}Gain`, 0) / 20);
+
+          bandOut.connect(comp);
+          comp.connect(bandGain);
+          bandGain.connect(output);
+          bandNodes.push(comp, bandGain);
+      }
+
+      return [...bandNodes, ...filterNodes];
+  }
+
+  // DynamicsCompressorNode has a fixed detector, so the native path only approximates a
+  // MultibandStyle through its knee and the attack/release/ratio scaling
+  private voiceBandCompressor(comp: DynamicsCompressorNode, params: any, band: number, voicing: MultibandVoicing, t?: number) {
+      const v = (key: string, def: number) => (typeof params[key] === 'number' ? params[key] : def);
+      const values: [AudioParam, number][] = [
+          [comp.threshold, v(`b${band}Dyn`, -24)],
+          [comp.ratio, 1 + (v(`b${band}Ratio`, 4) - 1) * voicing.ratioScale],
+          [comp.attack, v(`b${band}Attack`, 0.01) * voicing.attackScale],
+          [comp.release, v(`b${band}Release`, 0.2) * voicing.releaseScale],
+          [comp.knee, voicing.knee]
+      ];
+      values.forEach(([param, value]) => {
+          if (t === undefined) param.value = value;
+          else param.setTargetAtTime(value, t, 0.1);
+      });
+  }
+
+  private createMultibandNodes(ctx: BaseAudioContext, module: PluginModuleState): AudioNode[] {
+      const params = module.params;
+      if (isCrossoverMode(params)) return this.createCrossoverMultibandNodes(ctx, module);
+      const voicing = getMultibandVoicing(module.multibandStyle);
+
       const v = (key: string, def: number) => (typeof params[key] === 'number' ? params[key] : def);
       
-      const input = this.context.createGain();
-      const output = this.context.createGain();
+      const input = ctx.createGain();
+      const output = ctx.createGain();
 
-      // 7-Band Parallel Processing Topology
+      // Parallel Processing Topology, one filtered compressor per band
       // Allows "Dynamic EQ" style interaction where user drags bands to compress specific ranges
       const bandNodes: AudioNode[] = [];
       
@@ -393,9 +1209,9 @@ class AudioEngine {
       // Structure: [Input, Output, ...Band1Nodes, ...Band2Nodes, ...]
       bandNodes.push(input, output);
 
-      for (let i = 1; i <= 7; i++) {
+      for (const i of getBands(params)) {
            // Each band: Input -> Biquad (Peaking/Bandpass) -> Compressor -> Gain -> Output
-           const filter = this.context.createBiquadFilter();
+           const filter = ctx.createBiquadFilter();
            // Using Peaking to allow broad strokes, or Bandpass for isolation. 
            // "Dynamic EQ" usually implies Peaking filters that reduce gain.
            // However, to mimic standard Multiband where bands sum to unity, we use broad Q peaking or shelf.
@@ -406,13 +1222,10 @@ class AudioEngine {
            filter.Q.value = v(`b${i}Q`, 1.0);
            filter.gain.value = 0; // Filter gain is static EQ, we want Dynamic.
            
-           const comp = this.context.createDynamicsCompressor();
-           comp.threshold.value = v(`b${i}Dyn`, -24); // "Dyn" param maps to threshold
-           comp.ratio.value = v(`b${i}Ratio`, 4);
-           comp.attack.value = v(`b${i}Attack`, 0.01);
-           comp.release.value = v(`b${i}Release`, 0.2);
+           const comp = ctx.createDynamicsCompressor();
+           this.voiceBandCompressor(comp, params, i, voicing); // "Dyn" param maps to threshold
 
-           const bandGain = this.context.createGain();
+           const bandGain = ctx.createGain();
            bandGain.gain.value = 1.0; // Make up gain or band mix
 
            input.connect(filter);
@@ -427,17 +1240,17 @@ class AudioEngine {
       return bandNodes;
   }
   
-  private createImagerNodes(params: any): AudioNode[] {
+  private createImagerNodes(ctx: BaseAudioContext, params: any): AudioNode[] {
       const v = (key: string, def: number) => (typeof params[key] === 'number' ? params[key] : def);
 
-      const inputNode = this.context.createGain();
-      const splitter = this.context.createChannelSplitter(2);
+      const inputNode = ctx.createGain();
+      const splitter = ctx.createChannelSplitter(2);
       inputNode.connect(splitter);
 
       // M/S Encoding
-      const midEncode = this.context.createGain(); midEncode.gain.value = 0.5;
-      const sideEncode = this.context.createGain(); sideEncode.gain.value = 0.5;
-      const sideInvert = this.context.createGain(); sideInvert.gain.value = -1;
+      const midEncode = ctx.createGain(); midEncode.gain.value = 0.5;
+      const sideEncode = ctx.createGain(); sideEncode.gain.value = 0.5;
+      const sideInvert = ctx.createGain(); sideInvert.gain.value = -1;
       
       splitter.connect(midEncode, 0);
       splitter.connect(midEncode, 1);
@@ -447,18 +1260,18 @@ class AudioEngine {
       sideInvert.connect(sideEncode);
 
       // Matrix
-      const midToMid = this.context.createGain();
-      const midToSide = this.context.createGain();
-      const sideToMid = this.context.createGain();
-      const sideToSide = this.context.createGain();
+      const midToMid = ctx.createGain();
+      const midToSide = ctx.createGain();
+      const sideToMid = ctx.createGain();
+      const sideToSide = ctx.createGain();
       
       midEncode.connect(midToMid);
       midEncode.connect(midToSide);
       sideEncode.connect(sideToMid);
       sideEncode.connect(sideToSide);
       
-      const midSum = this.context.createGain();
-      const sideSum = this.context.createGain();
+      const midSum = ctx.createGain();
+      const sideSum = ctx.createGain();
       
       midToMid.connect(midSum);
       sideToMid.connect(midSum);
@@ -466,53 +1279,53 @@ class AudioEngine {
       sideToSide.connect(sideSum);
 
       // Processing
-      const sideHpf = this.context.createBiquadFilter();
+      const sideHpf = ctx.createBiquadFilter();
       sideHpf.type = 'highpass';
       sideHpf.frequency.value = v('bassMono', 100);
       
       sideSum.connect(sideHpf);
       
-      const stereoDelay = this.context.createDelay(0.1);
+      const stereoDelay = ctx.createDelay(0.1);
       stereoDelay.delayTime.value = 0.008;
-      const stereoHp = this.context.createBiquadFilter();
+      const stereoHp = ctx.createBiquadFilter();
       stereoHp.type = 'highpass';
       stereoHp.frequency.value = 200;
-      const stereoGain = this.context.createGain();
+      const stereoGain = ctx.createGain();
       
       midSum.connect(stereoDelay);
       stereoDelay.connect(stereoHp);
       stereoHp.connect(stereoGain);
       
-      const sideFinalMix = this.context.createGain();
+      const sideFinalMix = ctx.createGain();
       sideHpf.connect(sideFinalMix);
       stereoGain.connect(sideFinalMix);
       
-      const widthGain = this.context.createGain();
+      const widthGain = ctx.createGain();
       widthGain.gain.value = v('width', 100) / 100;
       sideFinalMix.connect(widthGain);
 
       // Decoding
-      const outL = this.context.createGain();
-      const outR = this.context.createGain();
+      const outL = ctx.createGain();
+      const outR = ctx.createGain();
       
       midSum.connect(outL);
       midSum.connect(outR);
       
       widthGain.connect(outL);
-      const sideOutInvert = this.context.createGain();
+      const sideOutInvert = ctx.createGain();
       sideOutInvert.gain.value = -1;
       widthGain.connect(sideOutInvert);
       sideOutInvert.connect(outR);
 
       // Output
-      const merger = this.context.createChannelMerger(2);
+      const merger = ctx.createChannelMerger(2);
       outL.connect(merger, 0, 0);
       outR.connect(merger, 0, 1);
       
-      const panner = this.context.createStereoPanner();
+      const panner = ctx.createStereoPanner();
       panner.pan.value = v('pan', 0) / 100;
 
-      const outGain = this.context.createGain();
+      const outGain = ctx.createGain();
       
       merger.connect(panner);
       panner.connect(outGain);
@@ -520,38 +1333,38 @@ class AudioEngine {
       return [inputNode, sideHpf, widthGain, stereoGain, panner, outGain, midToMid, midToSide, sideToMid, sideToSide, outGain];
   }
 
-  private createDoublerNodes(params: any): AudioNode[] {
+  private createDoublerNodes(ctx: BaseAudioContext, params: any): AudioNode[] {
       const v = (key: string, def: number) => (typeof params[key] === 'number' ? params[key] : def);
       
-      const inputNode = this.context.createGain();
-      const output = this.context.createGain();
-      const dry = this.context.createGain();
-      const merger = this.context.createChannelMerger(2);
+      const inputNode = ctx.createGain();
+      const output = ctx.createGain();
+      const dry = ctx.createGain();
+      const merger = ctx.createChannelMerger(2);
 
-      const delayL = this.context.createDelay(1.0);
+      const delayL = ctx.createDelay(1.0);
       delayL.delayTime.value = v('spread', 20) / 1000;
       
-      const oscL = this.context.createOscillator();
+      const oscL = ctx.createOscillator();
       oscL.frequency.value = 0.1;
-      const oscLGain = this.context.createGain();
+      const oscLGain = ctx.createGain();
       oscLGain.gain.value = v('detune', 10) / 10000;
       oscL.connect(oscLGain);
       oscLGain.connect(delayL.delayTime);
       oscL.start();
       
-      const delayR = this.context.createDelay(1.0);
+      const delayR = ctx.createDelay(1.0);
       delayR.delayTime.value = (v('spread', 20) / 1000) * 1.5;
       
-      const oscR = this.context.createOscillator();
+      const oscR = ctx.createOscillator();
       oscR.frequency.value = 0.13;
-      const oscRGain = this.context.createGain();
+      const oscRGain = ctx.createGain();
       oscRGain.gain.value = v('detune', 10) / 10000;
       oscR.connect(oscRGain);
       oscRGain.connect(delayR.delayTime);
       oscR.start();
       
-      const wetL = this.context.createGain();
-      const wetR = this.context.createGain();
+      const wetL = ctx.createGain();
+      const wetR = ctx.createGain();
       
       inputNode.connect(delayL);
       inputNode.connect(delayR);
@@ -575,21 +1388,365 @@ class AudioEngine {
       return [inputNode, delayL, delayR, oscL, oscR, oscLGain, oscRGain, wetL, wetR, dry, output];
   }
   
-  private createChorusNodes(params: any): AudioNode[] {
+  // Equal-power crossfade so a centred mix doesn't dip in loudness: [dry, wet]
+  private equalPowerMix(mix: number): [number, number] {
+      const m = Math.max(0, Math.min(1, mix));
+      return [Math.cos(m * Math.PI / 2), Math.sin(m * Math.PI / 2)];
+  }
+
+  // Delay times, routing and feedback tone shared by node creation and updates
+  private getDelaySettings(params: any) {
+      const v = (key: string, def: number) => (typeof params[key] === 'number' && Number.isFinite(params[key]) ? params[key] : def);
+      const pingPong = v('pingPong', 1) >= 0.5;
+      const synced = v('sync', 0) >= 0.5;
+      const timeL = Math.min(5, synced ? divisionToSeconds(v('noteL', 8), this.bpm) : v('time', 0.3));
+      const timeR = Math.min(5, synced ? divisionToSeconds(v('noteR', 7), this.bpm) : v('timeR', 0.45));
+      return {
+          pingPong,
+          // Ping-pong bounces one time between the sides, independent mode runs each side on its own
+          timeL,
+          timeR: pingPong ? timeL : timeR,
+          feedback: v('feedback', 0.4),
+          lowCut: v('lowCut', 120),
+          highCut: v('highCut', 8000),
+          drive: v('fbDrive', 0),
+          oversample: nativeOversample(oversampleFactor(v('fbOversample', 0))),
+          mix: v('mix', 0.5)
+      };
+  }
+
+  // Feedback saturation is bypassed at zero drive so the repeats stay clean
+  private setDelayDrive(shaper: WaveShaperNode, drive: number) {
+      if ((shaper as any)._drive === drive) return;
+      shaper.curve = drive > 0 ? makeDistortionCurve(drive, 'TAPE') : null;
+      (shaper as any)._drive = drive;
+  }
+
+  // Stereo delay with HPF -> LPF -> saturation in each feedback loop. Both routings are wired
+  // and switched by gains: ping-pong feeds a mono sum into the left line and crosses the
+  // feedback, independent mode keeps each side in its own loop.
+  // Structure: [Input, Splitter, DelayL, DelayR, LowCutL, LowCutR, HighCutL, HighCutR, SatL, SatR,
+  //             FbL, FbR, CrossL, CrossR, InLtoL, InRtoR, InRtoL, Merger, Dry, Wet, Output]
+  private createDelayNodes(ctx: BaseAudioContext, params: any): AudioNode[] {
+      const s = this.getDelaySettings(params);
+
+      const inputNode = ctx.createGain();
+      const splitter = ctx.createChannelSplitter(2);
+      const merger = ctx.createChannelMerger(2);
+      const dry = ctx.createGain();
+      const wet = ctx.createGain();
+      const output = ctx.createGain();
+
+      const makeLine = (time: number) => {
+          const delay = ctx.createDelay(5.0);
+          delay.delayTime.value = time;
+          const lowCut = ctx.createBiquadFilter();
+          lowCut.type = 'highpass';
+          lowCut.frequency.value = s.lowCut;
+          const highCut = ctx.createBiquadFilter();
+          highCut.type = 'lowpass';
+          highCut.frequency.value = s.highCut;
+          const sat = ctx.createWaveShaper();
+          this.setDelayDrive(sat, s.drive);
+          sat.oversample = s.oversample;
+          const fb = ctx.createGain();
+          fb.gain.value = s.pingPong ? 0 : s.feedback;
+          const cross = ctx.createGain();
+          cross.gain.value = s.pingPong ? s.feedback : 0;
+
+          delay.connect(lowCut);
+          lowCut.connect(highCut);
+          highCut.connect(sat);
+          sat.connect(fb);
+          sat.connect(cross);
+          fb.connect(delay);
+          return { delay, lowCut, highCut, sat, fb, cross };
+      };
+      const left = makeLine(s.timeL);
+      const right = makeLine(s.timeR);
+      left.cross.connect(right.delay);
+      right.cross.connect(left.delay);
+
+      const inLtoL = ctx.createGain();
+      const inRtoR = ctx.createGain();
+      const inRtoL = ctx.createGain();
+      inLtoL.gain.value = s.pingPong ? 0.5 : 1;
+      inRtoR.gain.value = s.pingPong ? 0 : 1;
+      inRtoL.gain.value = s.pingPong ? 0.5 : 0;
+
+      inputNode.connect(dry);
+      inputNode.connect(splitter);
+      splitter.connect(inLtoL, 0);
+      splitter.connect(inRtoR, 1);
+      splitter.connect(inRtoL, 1);
+      inLtoL.connect(left.delay);
+      inRtoR.connect(right.delay);
+      inRtoL.connect(left.delay);
+
+      left.delay.connect(merger, 0, 0);
+      right.delay.connect(merger, 0, 1);
+      merger.connect(wet);
+      dry.connect(output);
+      wet.connect(output);
+
+      [dry.gain.value, wet.gain.value] = this.equalPowerMix(s.mix);
+
+      return [
+          inputNode, splitter, left.delay, right.delay, left.lowCut, right.lowCut, left.highCut, right.highCut,
+          left.sat, right.sat, left.fb, right.fb, left.cross, right.cross, inLtoL, inRtoR, inRtoL, merger, dry, wet, output
+      ];
+  }
+
+  // Loaded IR when irSource is on and the file is in the library, synthetic otherwise
+  private resolveReverbImpulse(ctx: BaseAudioContext, params: any, impulseId?: string) {
+      const source = impulseId && params.irSource >= 0.5 ? this.impulseLibrary.get(impulseId) : undefined;
+      if (source) {
+          const shaping = getImpulseShaping(params);
+          return { key: `${impulseId}|${impulseShapingKey(shaping)}`, build: () => shapeImpulse(ctx, source, shaping) };
+      }
+      const settings = getReverbSettings(params);
+      return { key: reverbSettingsKey(settings), build: () => generateReverbImpulse(ctx, settings) };
+  }
+
+  // Structure: [Input, Convolver, Dry, Wet, Output]
+  private createReverbNodes(ctx: BaseAudioContext, params: any, impulseId?: string): AudioNode[] {
+      const v = (key: string, def: number) => (typeof params[key] === 'number' ? params[key] : def);
+
+      const inputNode = ctx.createGain();
+      const convolver = ctx.createConvolver();
+      const ir = this.resolveReverbImpulse(ctx, params, impulseId);
+      convolver.buffer = ir.build();
+      (convolver as any)._irKey = ir.key;
+      const dry = ctx.createGain();
+      const wet = ctx.createGain();
+      const output = ctx.createGain();
+
+      inputNode.connect(dry);
+      inputNode.connect(convolver);
+      convolver.connect(wet);
+      dry.connect(output);
+      wet.connect(output);
+
+      [dry.gain.value, wet.gain.value] = this.equalPowerMix(v('mix', 0.3));
+
+      return [inputNode, convolver, dry, wet, output];
+  }
+
+  // Stage kinds and channel per band; first-order stages are fixed IIR nodes, so their frequency counts too
+  private getEqStageSignature(params: Record<string, number>) {
+      const bands: string[] = [];
+      for (const i of getBands(params)) {
+          bands.push(getBandStagesFromParams(params, i)
+              .map(st => (st.kind.endsWith('1') ? `${st.kind}@${Math.round(st.freq)}` : st.kind))
+              .join('+') + `/${getBandChannel(params, i)}`);
+      }
+      return bands.join(',');
+  }
+
+  // Native fallback for the parametric EQ: one node per band stage, in band order, tagged so
+  // updates can find them. Biquad stages follow the params; first-order stages are IIR nodes
+  // that the structure key rebuilds when their frequency moves. Bands on one channel sit in a
+  // splitter/merger pair (with an M/S matrix for Mid and Side, as in the imager). Returned
+  // wired, starting at the input and ending at the output.
+  private createEqStageNodes(ctx: BaseAudioContext, params: Record<string, number>): AudioNode[] {
+      const nodes: AudioNode[] = [];
+      let tail: AudioNode | null = null;
+      const append = (node: AudioNode) => {
+          if (tail) tail.connect(node);
+          nodes.push(node);
+          tail = node;
+      };
+      for (const i of getBands(params)) {
+          const stages = getBandStagesFromParams(params, i).map((st, index) => {
+              let node: AudioNode;
+              if (st.kind.endsWith('1')) {
+                  const c = eqStageCoeffs(st.kind, st.freq, st.q, st.gain, ctx.sampleRate);
+                  node = ctx.createIIRFilter([c.b0, c.b1], [1, c.a1]);
+              } else {
+                  const filter = ctx.createBiquadFilter();
+                  filter.type = st.kind as BiquadFilterType;
+                  filter.frequency.value = st.freq;
+                  filter.Q.value = nativeStageQ(st.kind, st.q);
+                  filter.gain.value = st.gain;
+                  node = filter;
+              }
+              (node as any)._eqStage = { band: i, index };
+              return node;
+          });
+          const channel = getBandChannel(params, i);
+          if (channel === 0) {
+              stages.forEach(append);
+              continue;
+          }
+
+          // The splitter takes channels as they come, so mono is upmixed to L = R first
+          const upmix = ctx.createGain();
+          upmix.channelCount = 2;
+          upmix.channelCountMode = 'explicit';
+          upmix.channelInterpretation = 'speakers';
+          const splitter = ctx.createChannelSplitter(2);
+          const merger = ctx.createChannelMerger(2);
+          append(upmix);
+          append(splitter);
+          for (let s = 0; s < stages.length - 1; s++) stages[s].connect(stages[s + 1]);
+          const first = stages[0];
+          const last = stages[stages.length - 1];
+          nodes.push(...stages);
+
+          if (channel === 1 || channel === 2) {
+              const mid = ctx.createGain();
+              const side = ctx.createGain();
+              const encodeInvert = ctx.createGain();
+              const decodeInvert = ctx.createGain();
+              mid.gain.value = 0.5;
+              side.gain.value = 0.5;
+              encodeInvert.gain.value = -1;
+              decodeInvert.gain.value = -1;
+              splitter.connect(mid, 0);
+              splitter.connect(mid, 1);
+              splitter.connect(side, 0);
+              splitter.connect(encodeInvert, 1);
+              encodeInvert.connect(side);
+
+              // L = M + S, R = M - S
+              (channel === 1 ? mid : side).connect(first);
+              const midOut = channel === 1 ? last : mid;
+              const sideOut = channel === 1 ? side : last;
+              midOut.connect(merger, 0, 0);
+              midOut.connect(merger, 0, 1);
+              sideOut.connect(merger, 0, 0);
+              sideOut.connect(decodeInvert);
+              decodeInvert.connect(merger, 0, 1);
+              nodes.push(mid, side, encodeInvert, decodeInvert);
+          } else {
+              const target = channel === 3 ? 0 : 1;
+              splitter.connect(first, target);
+              last.connect(merger, 0, target);
+              splitter.connect(merger, 1 - target, 1 - target);
+          }
+          nodes.push(merger);
+          tail = merger;
+      }
+      return nodes;
+  }
+
+  private updateEqStageNodes(nodes: AudioNode[], params: Record<string, number>, t: number) {
+      const stages = getBands(params).map(i => getBandStagesFromParams(params, i));
+      nodes.forEach(node => {
+          const tag = (node as any)._eqStage;
+          const st = tag && stages[tag.band - 1]?.[tag.index];
+          if (!(node instanceof BiquadFilterNode) || !st) return;
+          node.frequency.setTargetAtTime(st.freq, t, 0.05);
+          node.Q.setTargetAtTime(nativeStageQ(st.kind, st.q), t, 0.05);
+          node.gain.setTargetAtTime(st.gain, t, 0.05);
+      });
+  }
+
+  // Samples the minimum-phase band cascade on the FIR's bin grid, so both phase modes draw
+  // and sound the same curve. With bands on single channels each bin is a 2x2 L/R matrix
+  // instead, and the four products become a true-stereo kernel (LL, RL, LR, RR channels).
+  // A spectral match curve, when given, scales every path by its gain at the bin.
+  private buildLinearPhaseKernel(ctx: BaseAudioContext, params: any, match: number[] | null = null): AudioBuffer {
+      const length = getFirLength(params.firLength);
+      const bins = length / 2 + 1;
+      const bands = getBands(params);
+      const rate = ctx.sampleRate;
+      const freqAt = (k: number) => (k * rate) / length;
+      const amount = getMatchAmount(params);
+      const matchGain = (k: number) => (match ? Math.pow(10, (matchGainAt(match, freqAt(k)) * amount) / 20) : 1);
+
+      if (!hasChannelBands(params, bands)) {
+          const coeffs = designStages(bands.flatMap(i => getBandStagesFromParams(params, i)), rate);
+          const magnitude = new Float32Array(bins);
+          for (let k = 0; k < bins; k++) magnitude[k] = stagesResponse(coeffs, freqAt(k), rate).mag * matchGain(k);
+
+          const buffer = ctx.createBuffer(1, length, rate);
+          buffer.copyToChannel(designLinearPhaseKernel(magnitude, length), 0);
+          return buffer;
+      }
+
+      const designed = bands.map(i => ({ channel: getBandChannel(params, i), coeffs: designStages(getBandStagesFromParams(params, i), rate) }));
+      const paths = [0, 1, 2, 3].map(() => new Float32Array(bins));
+      for (let k = 0; k < bins; k++) {
+          let m: ChannelMatrix = [1, 0, 0, 1];
+          designed.forEach(band => {
+              m = multiplyChannelMatrix(bandChannelMatrix(band.channel, stagesResponse(band.coeffs, freqAt(k), rate).mag), m);
+          });
+          const g = matchGain(k);
+          m.forEach((gain, p) => (paths[p][k] = gain * g));
+      }
+
+      // ConvolverNode true stereo order: L->L, L->R, R->L, R->R
+      const buffer = ctx.createBuffer(4, length, rate);
+      [0, 2, 1, 3].forEach((p, channel) => buffer.copyToChannel(designLinearPhaseKernel(paths[p], length), channel));
+      return buffer;
+  }
+
+  // Structure: [Convolver, Output]. A mono kernel is applied to each input channel; a 4-channel
+  // kernel mixes across them, so the input is always taken as stereo.
+  private createLinearPhaseEqNodes(ctx: BaseAudioContext, params: any, match: number[] | null): AudioNode[] {
+      const convolver = ctx.createConvolver();
+      convolver.normalize = false;
+      convolver.channelCountMode = 'explicit';
+      convolver.channelCount = 2;
+      convolver.buffer = this.buildLinearPhaseKernel(ctx, params, match);
+      (convolver as any)._firKey = linearPhaseKey(params, ctx.sampleRate, match);
+
+      const output = ctx.createGain();
+      output.gain.value = Math.pow(10, (typeof params.output === 'number' ? params.output : 0) / 20);
+      convolver.connect(output);
+      return [convolver, output];
+  }
+
+  // Redesigning is cheap but swapping kernels mid-drag is not, so wait for the bands to settle
+  private updateLinearPhaseEq(ctx: BaseAudioContext, moduleId: string, convolver: ConvolverNode, params: any, match: number[] | null) {
+      const key = linearPhaseKey(params, ctx.sampleRate, match);
+      if ((convolver as any)._firKey === key) return;
+
+      clearTimeout(this.firTimers.get(moduleId));
+      this.firTimers.set(moduleId, window.setTimeout(() => {
+          this.firTimers.delete(moduleId);
+          convolver.buffer = this.buildLinearPhaseKernel(ctx, params, match);
+          (convolver as any)._firKey = key;
+      }, 60));
+  }
+
+  // Mix follows immediately, the impulse is rebuilt once the shape params settle
+  private updateReverbNodes(ctx: BaseAudioContext, moduleId: string, rNodes: AudioNode[], params: any, mix: number, t: number, impulseId?: string) {
+      const convolver = rNodes[1] as ConvolverNode;
+      const dry = rNodes[2] as GainNode;
+      const wet = rNodes[3] as GainNode;
+
+      const [dryGain, wetGain] = this.equalPowerMix(mix);
+      dry.gain.setTargetAtTime(dryGain, t, 0.1);
+      wet.gain.setTargetAtTime(wetGain, t, 0.1);
+
+      const ir = this.resolveReverbImpulse(ctx, params, impulseId);
+      if ((convolver as any)._irKey === ir.key) return;
+
+      clearTimeout(this.reverbTimers.get(moduleId));
+      this.reverbTimers.set(moduleId, window.setTimeout(() => {
+          this.reverbTimers.delete(moduleId);
+          convolver.buffer = ir.build();
+          (convolver as any)._irKey = ir.key;
+      }, 150));
+  }
+
+  private createChorusNodes(ctx: BaseAudioContext, params: any): AudioNode[] {
       const v = (key: string, def: number) => (typeof params[key] === 'number' ? params[key] : def);
       
-      const dry = this.context.createGain();
-      const wet = this.context.createGain();
-      const inputNode = this.context.createGain(); 
+      const dry = ctx.createGain();
+      const wet = ctx.createGain();
+      const inputNode = ctx.createGain(); 
       
-      const delay = this.context.createDelay(1.0);
+      const delay = ctx.createDelay(1.0);
       delay.delayTime.value = 0.03;
       
-      const osc = this.context.createOscillator();
+      const osc = ctx.createOscillator();
       osc.type = 'sine';
       osc.frequency.value = v('rate', 1.5);
       
-      const oscGain = this.context.createGain();
+      const oscGain = ctx.createGain();
       oscGain.gain.value = v('depth', 0.002);
       
       osc.connect(oscGain);
@@ -600,7 +1757,7 @@ class AudioEngine {
       inputNode.connect(delay);
       delay.connect(wet);
       
-      const output = this.context.createGain();
+      const output = ctx.createGain();
       dry.connect(output);
       wet.connect(output);
       
@@ -611,24 +1768,24 @@ class AudioEngine {
       return [inputNode, delay, osc, oscGain, dry, wet, output];
   }
 
-  private createFlangerNodes(params: any): AudioNode[] {
+  private createFlangerNodes(ctx: BaseAudioContext, params: any): AudioNode[] {
       const v = (key: string, def: number) => (typeof params[key] === 'number' ? params[key] : def);
 
-      const dry = this.context.createGain();
-      const wet = this.context.createGain();
-      const inputNode = this.context.createGain();
+      const dry = ctx.createGain();
+      const wet = ctx.createGain();
+      const inputNode = ctx.createGain();
       
-      const delay = this.context.createDelay(1.0);
+      const delay = ctx.createDelay(1.0);
       delay.delayTime.value = 0.005;
       
-      const feedback = this.context.createGain();
+      const feedback = ctx.createGain();
       feedback.gain.value = v('feedback', 0.5);
       
-      const osc = this.context.createOscillator();
+      const osc = ctx.createOscillator();
       osc.type = 'triangle';
       osc.frequency.value = v('rate', 0.5);
       
-      const oscGain = this.context.createGain();
+      const oscGain = ctx.createGain();
       oscGain.gain.value = v('depth', 0.002);
       
       osc.connect(oscGain);
@@ -642,7 +1799,7 @@ class AudioEngine {
       delay.connect(feedback);
       feedback.connect(delay);
       
-      const output = this.context.createGain();
+      const output = ctx.createGain();
       dry.connect(output);
       wet.connect(output);
       
@@ -656,11 +1813,21 @@ class AudioEngine {
   // ---
 
   updateParams(module: PluginModuleState) {
+     // Keep the latest state so chain rebuilds and tempo changes use current values
+     this.currentModules = this.currentModules.map(m => m.id === module.id ? module : m);
      const nodes = this.pluginNodes.get(module.id);
      if (!nodes) return;
-     
+     // e.g. switching the native multiband between crossover and parallel swaps the whole group
+     if (this.groupKeys.get(module.id) !== this.getStructureKey(this.context, module)) {
+         this.updatePluginChain(this.currentModules);
+         return;
+     }
+     this.applyParams(this.context, module, nodes);
+  }
+
+  private applyParams(ctx: BaseAudioContext, module: PluginModuleState, nodes: AudioNode[]) {
      const p = module.params;
-     const t = this.context.currentTime;
+     const t = ctx.currentTime;
 
      const v = (val: any, def: number) => (typeof val === 'number' && Number.isFinite(val) ? val : def);
 
@@ -732,9 +1899,10 @@ class AudioEngine {
      };
 
      if (module.type === PluginType.VISUAL_EQ || module.type === PluginType.HYBRID_EQ_DYN || module.type === PluginType.SHINE) {
-        // Apply filter params (First 7 nodes are filters)
-        for (let i = 0; i < 7; i++) {
-            if (nodes[i] instanceof BiquadFilterNode) {
+        // Apply filter params (First N nodes are filters, one per band; the parametric EQ tags its stages)
+        const bandCount = getBandCount(p);
+        for (let i = 0; i < bandCount; i++) {
+            if (nodes[i] instanceof BiquadFilterNode && !(nodes[i] as any)._eqStage) {
                 const bandNum = i + 1;
                 const filter = nodes[i] as BiquadFilterNode;
                 
@@ -759,23 +1927,27 @@ class AudioEngine {
             let avgSat = 0;
             let avgDelay = 0;
             let avgShine = 0;
+            let avgVerb = 0;
 
-            for (let i = 1; i <= 7; i++) {
+            for (let i = 1; i <= bandCount; i++) {
                 avgDyn += Math.max(0, v(p[`b${i}Dyn`], 0)) / 18;
                 avgSat += Math.max(0, v(p[`b${i}Sat`], 0)) / 18;
                 avgDelay += Math.max(0, v(p[`b${i}Delay`], 0)) / 18;
                 avgShine += Math.max(0, v(p[`b${i}Shine`], 0)) / 18;
+                avgVerb += Math.max(0, v(p[`b${i}Verb`], 0)) / 18;
             }
-            avgDyn /= 7;
-            avgSat /= 7;
-            avgDelay /= 7;
-            avgShine /= 7;
+            avgDyn /= bandCount;
+            avgSat /= bandCount;
+            avgDelay /= bandCount;
+            avgShine /= bandCount;
+            avgVerb /= bandCount;
 
             nodes.forEach(node => {
                 if (node instanceof WaveShaperNode) {
                     const baseDrive = v(p.drive, 0);
                     const drive = (baseDrive + (avgSat * 100)) * smartDriveScale; 
-                    (node as any).curve = this.makeDistortionCurve(Math.min(100, drive), module.saturationMode);
+                    (node as any).curve = makeDistortionCurve(Math.min(100, drive), module.saturationMode);
+                    node.oversample = nativeOversample(oversampleFactor(v(p.oversampleSat, DEFAULT_OVERSAMPLE)));
                 }
                 if (node instanceof DynamicsCompressorNode) {
                     const baseThresh = v(p.threshold, -10);
@@ -812,12 +1984,26 @@ class AudioEngine {
             const chorusNodes = nodes.filter(n => (n as any)._hybridType === 'CHORUS');
             if (chorusNodes.length > 0) updateChorus(chorusNodes, p);
 
-            const finalNode = nodes[nodes.length - 1];
+            const reverbNodes = nodes.filter(n => (n as any)._hybridType === 'REVERB');
+            if (reverbNodes.length > 0) this.updateReverbNodes(ctx, module.id, reverbNodes, p, v(p.mix, 0.3) + avgVerb * 0.5, t, module.impulse?.id);
+
+            // Nested effect groups sit after the strip's own output stage
+            const finalNode = nodes.filter(n => !(n as any)._hybridType).pop();
             if (finalNode instanceof GainNode) {
                 finalNode.gain.setTargetAtTime(Math.pow(10, v(p.output, 0) / 20), t, 0.1);
             }
         }
         
+        else if (module.type === PluginType.VISUAL_EQ) {
+             if (nodes[0] instanceof ConvolverNode) this.updateLinearPhaseEq(ctx, module.id, nodes[0], p, getMatchFilterCurve(module));
+             if (nodes[0] instanceof AudioWorkletNode) nodes[0].port.postMessage(this.getEqConfig(module));
+             else this.updateEqStageNodes(nodes, p, t);
+             const lastNode = nodes[nodes.length - 1];
+             if (lastNode instanceof GainNode) {
+                 lastNode.gain.setTargetAtTime(Math.pow(10, v(p.output, 0) / 20), t, 0.05);
+             }
+        }
+
         else if (module.type === PluginType.SHINE) {
              nodes.forEach(node => {
                  if (node instanceof BiquadFilterNode && (node as BiquadFilterNode).frequency.value >= 5000) {
@@ -842,65 +2028,133 @@ class AudioEngine {
             }
         }
      }
+     else if (module.type === PluginType.MULTIBAND && nodes[0] instanceof AudioWorkletNode) {
+          this.postMultibandConfig(nodes[0], module);
+          this.routeSidechain(ctx, nodes[0], Math.round(v(p.scSource, 0)));
+     }
+     else if (module.type === PluginType.MULTIBAND && isCrossoverMode(p)) {
+          // Nodes: Input, Output, ... N x (Comp, Gain), ...tagged crossover filters
+          const crossovers = getCrossovers(p, getBandCount(p));
+          const voicing = getMultibandVoicing(module.multibandStyle);
+          for (const i of getBands(p)) {
+              const comp = nodes[2 + (i - 1) * 2] as DynamicsCompressorNode;
+              const gain = nodes[3 + (i - 1) * 2] as GainNode;
+              if (!(comp instanceof DynamicsCompressorNode) || !(gain instanceof GainNode)) continue;
+              this.voiceBandCompressor(comp, p, i, voicing, t);
+              gain.gain.setTargetAtTime(Math.pow(10, v(p[`b${i}Gain`], 0) / 20), t, 0.1);
+          }
+          nodes.forEach(node => {
+              const xover = (node as any)._xover;
+              if (node instanceof BiquadFilterNode && typeof xover === 'number') {
+                  node.frequency.setTargetAtTime(crossovers[xover], t, 0.05);
+              }
+          });
+          (nodes[1] as GainNode).gain.setTargetAtTime(Math.pow(10, v(p.output, 0) / 20), t, 0.1);
+     }
      else if (module.type === PluginType.MULTIBAND) {
-          // Nodes: Input, Output, ... 7 x (Filter, Comp, Gain)
+          // Nodes: Input, Output, ... N x (Filter, Comp, Gain)
           // Indexes: 0=Input, 1=Output, 
           // Band 1: 2=Filter, 3=Comp, 4=Gain
           // Band 2: 5=Filter, 6=Comp, 7=Gain ...
           
           const output = nodes[1] as GainNode;
+          const voicing = getMultibandVoicing(module.multibandStyle);
           
-          for(let i = 1; i <= 7; i++) {
+          for (const i of getBands(p)) {
               const baseIdx = 2 + (i - 1) * 3;
               const filter = nodes[baseIdx] as BiquadFilterNode;
               const comp = nodes[baseIdx + 1] as DynamicsCompressorNode;
               const gain = nodes[baseIdx + 2] as GainNode;
 
               if(filter && comp && gain) {
-                  filter.frequency.setTargetAtTime(v(`b${i}Freq`, 1000), t, 0.05);
-                  filter.Q.setTargetAtTime(v(`b${i}Q`, 1.0), t, 0.05);
+                  filter.frequency.setTargetAtTime(v(p[`b${i}Freq`], 1000), t, 0.05);
+                  filter.Q.setTargetAtTime(v(p[`b${i}Q`], 1.0), t, 0.05);
                   
-                  comp.threshold.setTargetAtTime(v(`b${i}Dyn`, -24), t, 0.1);
-                  comp.ratio.setTargetAtTime(v(`b${i}Ratio`, 4), t, 0.1);
-                  comp.attack.setTargetAtTime(v(`b${i}Attack`, 0.01), t, 0.1);
-                  comp.release.setTargetAtTime(v(`b${i}Release`, 0.2), t, 0.1);
+                  this.voiceBandCompressor(comp, p, i, voicing, t);
                   
                   // Gain maps to standard EQ gain, but here it is output mix of the band
                   // Since we are doing parallel, if user boosts band gain, we boost that band
-                  const db = v(`b${i}Gain`, 0);
+                  const db = v(p[`b${i}Gain`], 0);
                   gain.gain.setTargetAtTime(Math.pow(10, db/20), t, 0.1);
               }
           }
 
           output.gain.setTargetAtTime(Math.pow(10, v(p.output, 0) / 20), t, 0.1);
      }
+     else if (module.type === PluginType.SATURATION && nodes[0] instanceof AudioWorkletNode) {
+         const node = nodes[0];
+         this.setWorkletParam(node, 'drive', v(p.drive, 0), t);
+         this.setWorkletParam(node, 'output', v(p.output, 0), t, 0.1);
+         // Stepped, not smoothed: every intermediate factor would rebuild the oversamplers
+         node.parameters.get('oversample')?.setValueAtTime(oversampleFactor(v(p.oversample, DEFAULT_OVERSAMPLE)), t);
+         node.port.postMessage({ type: 'mode', mode: module.saturationMode || 'TUBE' });
+     }
      else if (module.type === PluginType.SATURATION) {
          const shaper = nodes[0] as WaveShaperNode;
-         (shaper as any).curve = this.makeDistortionCurve(v(p.drive, 0), module.saturationMode);
+         (shaper as any).curve = makeDistortionCurve(v(p.drive, 0), module.saturationMode);
+         shaper.oversample = nativeOversample(oversampleFactor(v(p.oversample, DEFAULT_OVERSAMPLE)));
          const gain = nodes[1] as GainNode;
          gain.gain.setTargetAtTime(Math.pow(10, v(p.output, 0) / 20), t, 0.1);
      } 
+     else if (module.type === PluginType.COMPRESSOR && nodes[0] instanceof AudioWorkletNode) {
+         const node = nodes[0];
+         this.setWorkletParam(node, 'threshold', v(p.threshold, -24), t, 0.1);
+         this.setWorkletParam(node, 'ratio', v(p.ratio, 4), t, 0.1);
+         this.setWorkletParam(node, 'knee', v(p.knee, 6), t, 0.1);
+         this.setWorkletParam(node, 'attack', v(p.attack, 0.003), t, 0.1);
+         this.setWorkletParam(node, 'release', v(p.release, 0.25), t, 0.1);
+         this.setWorkletParam(node, 'makeup', v(p.makeup, 0), t, 0.1);
+         this.setWorkletParam(node, 'lookahead', v(p.lookahead, 0), t, 0.1);
+         const source = Math.round(v(p.scSource, 0));
+         this.setWorkletParam(node, 'sidechain', source > 0 ? 1 : 0, t, 0.001);
+         this.setWorkletParam(node, 'scHpf', v(p.scHpf, 20), t, 0.05);
+         this.setWorkletParam(node, 'listen', v(p.scListen, 0), t, 0.001);
+         this.routeSidechain(ctx, node, source);
+     }
      else if (module.type === PluginType.COMPRESSOR) {
          const comp = nodes[0] as DynamicsCompressorNode;
          comp.threshold.setTargetAtTime(v(p.threshold, -24), t, 0.1);
          comp.ratio.setTargetAtTime(v(p.ratio, 4), t, 0.1);
          comp.attack.setTargetAtTime(v(p.attack, 0.003), t, 0.1);
          comp.release.setTargetAtTime(v(p.release, 0.25), t, 0.1);
+         comp.knee.setTargetAtTime(v(p.knee, 6), t, 0.1);
          if (nodes[1] instanceof GainNode) {
              nodes[1].gain.setTargetAtTime(Math.pow(10, v(p.makeup, 0) / 20), t, 0.1);
          }
      }
      else if (module.type === PluginType.DELAY) {
-         const delay = nodes[0] as DelayNode;
-         delay.delayTime.setTargetAtTime(v(p.time, 0.3), t, 0.1);
+         const s = this.getDelaySettings(p);
+         const [delayL, delayR, lowCutL, lowCutR, highCutL, highCutR, satL, satR, fbL, fbR, crossL, crossR, inLtoL, inRtoR, inRtoL] = nodes.slice(2, 17);
+         const dry = nodes[18] as GainNode;
+         const wet = nodes[19] as GainNode;
+
+         (delayL as DelayNode).delayTime.setTargetAtTime(s.timeL, t, 0.1);
+         (delayR as DelayNode).delayTime.setTargetAtTime(s.timeR, t, 0.1);
+         [lowCutL, lowCutR].forEach(f => (f as BiquadFilterNode).frequency.setTargetAtTime(s.lowCut, t, 0.05));
+         [highCutL, highCutR].forEach(f => (f as BiquadFilterNode).frequency.setTargetAtTime(s.highCut, t, 0.05));
+         [satL, satR].forEach(shaper => {
+             this.setDelayDrive(shaper as WaveShaperNode, s.drive);
+             (shaper as WaveShaperNode).oversample = s.oversample;
+         });
+
+         [fbL, fbR].forEach(g => (g as GainNode).gain.setTargetAtTime(s.pingPong ? 0 : s.feedback, t, 0.05));
+         [crossL, crossR].forEach(g => (g as GainNode).gain.setTargetAtTime(s.pingPong ? s.feedback : 0, t, 0.05));
+         (inLtoL as GainNode).gain.setTargetAtTime(s.pingPong ? 0.5 : 1, t, 0.05);
+         (inRtoR as GainNode).gain.setTargetAtTime(s.pingPong ? 0 : 1, t, 0.05);
+         (inRtoL as GainNode).gain.setTargetAtTime(s.pingPong ? 0.5 : 0, t, 0.05);
+
+         const [dryGain, wetGain] = this.equalPowerMix(s.mix);
+         dry.gain.setTargetAtTime(dryGain, t, 0.1);
+         wet.gain.setTargetAtTime(wetGain, t, 0.1);
+     }
+     else if (module.type === PluginType.REVERB) {
+         this.updateReverbNodes(ctx, module.id, nodes, p, v(p.mix, 0.3), t, module.impulse?.id);
      }
      else if (module.type === PluginType.OSCILLATOR) {
-         if (this.sourceNode instanceof OscillatorNode) {
-             this.sourceNode.frequency.setTargetAtTime(v(p.frequency, 440), t, 0.1);
-             this.sourceNode.detune.setTargetAtTime(v(p.detune, 0), t, 0.1);
-         }
-         const gain = nodes[0] as GainNode;
-         gain.gain.setTargetAtTime(v(p.gain, 0.5), t, 0.1);
+         const [, bus, lfo] = nodes as [GainNode, GainNode, OscillatorNode];
+         bus.gain.setTargetAtTime(v(p.gain, 0.5), t, 0.1);
+         lfo.frequency.setTargetAtTime(v(p.pwmRate, 0.5), t, 0.1);
+         if (ctx === this.context) this.syncHoldVoice(module);
      }
      else if (module.type === PluginType.STEREO_IMAGER) {
          updateImager(nodes, p);
@@ -936,6 +2190,51 @@ class AudioEngine {
   getStereoAnalyzers() {
       return { l: this.analyzerL, r: this.analyzerR };
   }
+
+  getMidSideAnalyzers() {
+      return { m: this.analyzerM, s: this.analyzerS };
+  }
+
+  // Current gain reduction in dB (<= 0) for a dynamics module: one value for COMPRESSOR and the
+  // Hybrid compressor, one per band for MULTIBAND. Empty when the module has no compressor.
+  getGainReduction(moduleId: string): number[] {
+      const nodes = this.pluginNodes.get(moduleId);
+      if (!nodes) return [];
+      if (nodes[0] instanceof AudioWorkletNode) return this.gainReduction.get(moduleId) || [];
+      // Native compressors expose their own reduction; nested hybrid groups never contain one
+      return nodes
+          .filter(n => n instanceof DynamicsCompressorNode && !(n as any)._hybridType)
+          .map(n => (n as DynamicsCompressorNode).reduction);
+  }
+
+  // Gain in dB each parametric EQ band is applying right now. Only the worklet EQ reports;
+  // empty for the linear-phase and native curves.
+  getDynamicEqGains(moduleId: string): number[] {
+      const nodes = this.pluginNodes.get(moduleId);
+      return nodes && nodes[0] instanceof AudioWorkletNode ? this.dynamicEqGains.get(moduleId) || [] : [];
+  }
+
+  // Samples each module adds at the live rate, and the slowest input-to-output path that the
+  // host would have to compensate
+  getLatencyReport(modules: PluginModuleState[], routing: RoutingGraph | null = this.currentRouting) {
+      const sampleRate = this.context.sampleRate;
+      const worklet = this.workletContexts.has(this.context);
+      const latencyOf = (m: PluginModuleState) => getModuleLatency(m, sampleRate, worklet);
+      const perModule: Record<string, number> = {};
+      modules.forEach(m => { perModule[m.id] = latencyOf(m); });
+      return { sampleRate, perModule, total: getChainLatency(modules, routing, latencyOf) };
+  }
+
+  // Live master-bus loudness, ~10 updates a second. Returns the unsubscribe function.
+  subscribeLoudness(listener: (snapshot: LoudnessSnapshot) => void) {
+      this.loudnessListeners.add(listener);
+      return () => { this.loudnessListeners.delete(listener); };
+  }
+
+  // Restarts the integrated loudness, loudness range and true-peak hold
+  resetLoudness() {
+      this.meterNode?.port.postMessage({ type: 'reset' });
+  }
   
   getContext() {
       return this.context;
@@ -0,0 +1,132 @@
+// Band count of the EQ-based modules (parametric EQ, Shine, Multiband and the hybrid strip).
+// Band params are numbered b1..bN and `bands` holds N; modules saved before it existed have
+// seven. Adding or removing a band renumbers the params above it, and the multiband keeps
+// one crossover (x{i}Freq) between each pair of neighbouring bands.
+
+import { AudioParamConfig } from '../types';
+import { getDefaultShapeIndex, EQ_SHAPES, CUT_SLOPES, DEFAULT_CUT_SLOPE } from './eqShapes';
+import { getCrossovers } from './crossover';
+import { EQ_CHANNELS } from './eqChannels';
+
+export const MIN_BANDS = 1;
+export const MAX_BANDS = 24;
+export const DEFAULT_BAND_COUNT = 7;
+export const DEFAULT_BAND_FREQS = [60, 130, 300, 800, 2000, 5000, 10000];
+
+export const getBandCount = (params: Record<string, number>) => {
+    const count = params.bands;
+    if (typeof count !== 'number' || !Number.isFinite(count)) return DEFAULT_BAND_COUNT;
+    return Math.max(MIN_BANDS, Math.min(MAX_BANDS, Math.round(count)));
+};
+
+// Band numbers 1..N, for the loops that used to run over a fixed seven
+export const getBands = (params: Record<string, number>) => Array.from({ length: getBandCount(params) }, (_, i) => i + 1);
+
+// Everything a band owns. Shapes default to shelves only on the outer bands of the stock layout.
+export const generateBandParams = (i: number, freq: number, shape = getDefaultShapeIndex(i)): AudioParamConfig[] => [
+    // Main EQ Params
+    { id: `b${i}Freq`, name: `Band ${i} Freq`, value: freq, min: 20, max: 20000, step: 1, unit: 'Hz', hidden: true },
+    { id: `b${i}Gain`, name: `Band ${i} Gain`, value: 0, min: -18, max: 18, step: 0.1, unit: 'dB', hidden: true },
+    { id: `b${i}Q`, name: `Band ${i} Q`, value: 1.0, min: 0.1, max: 10, step: 0.1, unit: '', hidden: true },
+
+    // Layer Params (Hidden by default, used when layers active)
+    // Dynamics: Value represents compression intensity/threshold shift
+    { id: `b${i}Dyn`, name: `Band ${i} Dyn`, value: 0, min: -60, max: 0, step: 0.5, unit: 'dB', hidden: true },
+    // Saturation: Value represents drive intensity
+    { id: `b${i}Sat`, name: `Band ${i} Sat`, value: 0, min: -18, max: 18, step: 0.1, unit: '', hidden: true },
+
+    // Shine: Value represents polish/excite amount + Frequency control for separation
+    { id: `b${i}Shine`, name: `Band ${i} Shine`, value: 0, min: -18, max: 18, step: 0.1, unit: '', hidden: true },
+    { id: `b${i}ShineFreq`, name: `Band ${i} Shine Freq`, value: freq, min: 20, max: 20000, step: 1, unit: 'Hz', hidden: true },
+
+    // Reverb: Value represents send amount
+    { id: `b${i}Verb`, name: `Band ${i} Verb`, value: 0, min: -18, max: 18, step: 0.1, unit: '', hidden: true },
+    // Delay: Value represents feedback/mix
+    { id: `b${i}Delay`, name: `Band ${i} Delay`, value: 0, min: -18, max: 18, step: 0.1, unit: '', hidden: true },
+
+    // Extra Dynamics Params per band (For Multiband)
+    { id: `b${i}Ratio`, name: `Band ${i} Ratio`, value: 4, min: 1, max: 20, step: 0.1, unit: ':1', hidden: true },
+    { id: `b${i}Attack`, name: `Band ${i} Attack`, value: 0.01, min: 0, max: 0.2, step: 0.001, unit: 's', hidden: true },
+    { id: `b${i}Release`, name: `Band ${i} Release`, value: 0.1, min: 0.01, max: 1, step: 0.01, unit: 's', hidden: true },
+    // Dynamic EQ: the band follows its level, reusing Dyn as threshold and the dynamics params above
+    { id: `b${i}DynOn`, name: `Band ${i} Dynamic`, value: 0, min: 0, max: 1, step: 1, unit: '', hidden: true },
+    // Band shape (index into EQ_SHAPES) and cut slope (index into CUT_SLOPES), set from the handle menu
+    { id: `b${i}Type`, name: `Band ${i} Type`, value: shape, min: 0, max: EQ_SHAPES.length - 1, step: 1, unit: '', hidden: true, options: EQ_SHAPES.map(s => s.label) },
+    { id: `b${i}Slope`, name: `Band ${i} Slope`, value: DEFAULT_CUT_SLOPE, min: 0, max: CUT_SLOPES.length - 1, step: 1, unit: '', hidden: true, options: CUT_SLOPES.map(s => `${s} dB/oct`) },
+    // Channel the band processes (index into EQ_CHANNELS)
+    { id: `b${i}Chan`, name: `Band ${i} Channel`, value: 0, min: 0, max: EQ_CHANNELS.length - 1, step: 1, unit: '', hidden: true, options: EQ_CHANNELS }
+];
+
+const BAND_KEY = /^b(\d+)([A-Z]\w*)$/;
+
+// Moves every band param through `map` (old band number -> new, or null to drop it)
+const renumberBands = (params: Record<string, number>, map: (band: number) => number | null) => {
+    const next: Record<string, number> = {};
+    Object.entries(params).forEach(([key, value]) => {
+        const match = BAND_KEY.exec(key);
+        if (!match) {
+            next[key] = value;
+            return;
+        }
+        const band = map(Number(match[1]));
+        if (band !== null) next[`b${band}${match[2]}`] = value;
+    });
+    return next;
+};
+
+const setCrossovers = (params: Record<string, number>, crossovers: number[]) => {
+    const next: Record<string, number> = {};
+    Object.entries(params).forEach(([key, value]) => {
+        if (!/^x\d+Freq$/.test(key)) next[key] = value;
+    });
+    crossovers.forEach((freq, j) => (next[`x${j + 1}Freq`] = freq));
+    return next;
+};
+
+// Adds a bell at `freq`/`gain`. EQ bands are appended so existing bands keep their numbers
+// and colours; multiband bands stay ordered and the band under `freq` is split there.
+// Returns null when the module is full. `band` is the number the new band got.
+export const addBand = (params: Record<string, number>, freq: number, gain: number, ordered: boolean): { params: Record<string, number>; band: number } | null => {
+    const count = getBandCount(params);
+    if (count >= MAX_BANDS) return null;
+
+    let band = count + 1;
+    let next = { ...params };
+    if (ordered) {
+        const crossovers = getCrossovers(params, count);
+        const below = crossovers.filter(c => c < freq).length;
+        band = below + 2;
+        next = renumberBands(params, b => (b >= band ? b + 1 : b));
+        const split = [...crossovers];
+        split.splice(below, 0, freq);
+        next = setCrossovers(next, split);
+    }
+
+    generateBandParams(band, freq, 0).forEach(p => (next[p.id] = p.value));
+    next[`b${band}Gain`] = ordered ? 0 : Math.max(-18, Math.min(18, gain));
+    next.bands = count + 1;
+    return { params: next, band };
+};
+
+// Replaces every band with a flat bell at each of `freqs`, in order
+export const replaceBands = (params: Record<string, number>, freqs: number[]) => {
+    const next = renumberBands(params, () => null);
+    freqs.forEach((freq, j) => generateBandParams(j + 1, freq, 0).forEach(p => (next[p.id] = p.value)));
+    next.bands = freqs.length;
+    return next;
+};
+
+// Drops a band and closes the gap. A removed multiband band hands its range to a neighbour.
+export const removeBand = (params: Record<string, number>, band: number, ordered: boolean): Record<string, number> | null => {
+    const count = getBandCount(params);
+    if (count <= MIN_BANDS || band < 1 || band > count) return null;
+
+    let next = renumberBands(params, b => (b === band ? null : b > band ? b - 1 : b));
+    if (ordered) {
+        const crossovers = getCrossovers(params, count);
+        crossovers.splice(Math.min(band, count - 1) - 1, 1);
+        next = setCrossovers(next, crossovers);
+    }
+    next.bands = count - 1;
+    return next;
+};
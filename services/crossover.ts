@@ -0,0 +1,45 @@
+// Linkwitz-Riley crossover helpers shared by the engine and the VisualEQ display.
+
+export const DEFAULT_CROSSOVERS = [90, 200, 500, 1250, 3150, 7000];
+
+// Butterworth section Qs per LR slope. LR24 = BW2 squared, LR48 = BW4 squared.
+export const CROSSOVER_QS: Record<number, number[]> = {
+    2: [Math.SQRT1_2],
+    4: [0.5412, 1.3066]
+};
+
+const safe = (val: any, def: number) => (typeof val === 'number' && Number.isFinite(val) ? val : def);
+
+export const isCrossoverMode = (params: Record<string, number>) => safe(params.xoverMode, 1) >= 0.5;
+
+// Order of the underlying Butterworth filter (2 = LR24, 4 = LR48)
+export const getCrossoverOrder = (params: Record<string, number>) => safe(params.xoverSlope, 0) >= 0.5 ? 4 : 2;
+
+// Crossover points between adjacent bands, kept ascending with a minimum spacing
+export const getCrossovers = (params: Record<string, number>, bandCount = 7): number[] => {
+    const points: number[] = [];
+    for (let i = 1; i < bandCount; i++) {
+        const def = DEFAULT_CROSSOVERS[i - 1] || 20000 * (i / bandCount);
+        const prev = points.length > 0 ? points[points.length - 1] * 1.05 : 20;
+        points.push(Math.max(prev, Math.min(20000, safe(params[`x${i}Freq`], def))));
+    }
+    return points;
+};
+
+// Geometric centre of a band's passband, used to place its handle
+export const getCrossoverBandCenter = (crossovers: number[], index: number) => {
+    const lo = index === 0 ? 20 : crossovers[index - 1];
+    const hi = index >= crossovers.length ? 20000 : crossovers[index];
+    return Math.sqrt(lo * hi);
+};
+
+// Magnitude of band `index` at `freq`. The compensating allpasses are flat, so only the LP/HP pairs matter.
+export const crossoverBandMagnitude = (freq: number, index: number, crossovers: number[], order: number) => {
+    let mag = 1;
+    crossovers.forEach((fc, j) => {
+        const r = Math.pow(freq / fc, 2 * order);
+        if (j < index) mag *= r / (1 + r); // Highpassed by every crossover below the band
+        else if (j === index) mag *= 1 / (1 + r); // Lowpassed by its own upper crossover
+    });
+    return mag;
+};
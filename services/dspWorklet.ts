@@ -0,0 +1,625 @@
+import { SaturationMode } from '../types';
+import { createLoudnessAnalyzer } from './loudness';
+import { eqStageCoeffs, getBandStages } from './eqShapes';
+
+// Shared waveshaping transfer function. Used both by the WaveShaper curve builder in the
+// engine and (serialized via toString) inside the worklet, so the two paths can't drift.
+// Must stay self-contained: no references to anything outside the function body.
+export function saturateSample(input: number, amount: number, mode: SaturationMode): number {
+    const k = (typeof amount === 'number' && isFinite(amount)) ? amount : 0;
+    const x = Math.max(-1, Math.min(1, input));
+    const deg = Math.PI / 180;
+
+    switch (mode) {
+        case 'DIGITAL': { // Hard Clipping
+            const clipped = x < -0.5 ? -0.5 : (x > 0.5 ? 0.5 : x);
+            return clipped * (1 + k / 100); // Gain scaling
+        }
+        case 'TAPE': { // Asymmetric Soft
+            const y = (x + 0.2 * x * x * x); // Bias
+            return Math.tanh(y * (1 + k / 50));
+        }
+        case 'FUZZ': { // High Gain into Hard Clip
+            const gain = 1 + (k / 5);
+            return Math.max(-0.8, Math.min(0.8, x * gain));
+        }
+        case 'RECTIFY': // Absolute
+            return Math.abs(x) * (1 + k / 100) - 0.2;
+        case 'TUBE':
+        default: // Soft Clipping (Standard)
+            return ((3 + k) * x * 20 * deg) / (Math.PI + k * Math.abs(x));
+    }
+}
+
+// --- Worklet Source ---
+// Processors are shipped as a string and loaded through a Blob URL so the same module
+// can be added to any BaseAudioContext (realtime or offline) without bundler support.
+
+const PROCESSORS = `
+const saturateSample = ${saturateSample.toString()};
+const createLoudnessAnalyzer = ${createLoudnessAnalyzer.toString()};
+const eqStageCoeffs = ${eqStageCoeffs.toString()};
+const getBandStages = ${getBandStages.toString()};
+
+const dbToGain = (db) => Math.pow(10, db / 20);
+const gainToDb = (g) => 20 * Math.log10(Math.max(g, 1e-9));
+const timeCoeff = (seconds) => seconds <= 0 ? 0 : Math.exp(-1 / (seconds * sampleRate));
+
+// Gain-reduction reports to the main thread: the deepest reduction of each ~33 ms window
+const GR_INTERVAL = Math.round(sampleRate / 30);
+
+// Static gain computer with a quadratic soft knee. Returns gain change in dB (<= 0).
+const computeGain = (levelDb, threshold, ratio, knee) => {
+    const over = levelDb - threshold;
+    let out = levelDb;
+    if (knee > 0 && 2 * Math.abs(over) <= knee) {
+        out = levelDb + (1 / ratio - 1) * Math.pow(over + knee / 2, 2) / (2 * knee);
+    } else if (over > 0) {
+        out = threshold + over / ratio;
+    }
+    return out - levelDb;
+};
+
+// RBJ cookbook coefficients at the worklet rate, from the EQ band designer
+const biquadCoeffs = (type, freq, q, gainDb) => eqStageCoeffs(type, freq, q, gainDb, sampleRate);
+
+class Biquad {
+    constructor() { this.c = { b0: 1, b1: 0, b2: 0, a1: 0, a2: 0 }; this.z1 = 0; this.z2 = 0; }
+    set(c) { this.c = c; }
+    process(x) {
+        const c = this.c;
+        const y = c.b0 * x + this.z1;
+        this.z1 = c.b1 * x - c.a1 * y + this.z2;
+        this.z2 = c.b2 * x - c.a2 * y;
+        return y;
+    }
+}
+
+// Detector key highpass (12 dB/oct per channel). At 20 Hz and below the key passes unfiltered.
+class KeyFilter {
+    constructor() { this.filters = [new Biquad(), new Biquad()]; this.freq = -1; }
+    set(freq) {
+        if (freq === this.freq) return;
+        this.freq = freq;
+        const c = biquadCoeffs('highpass', freq, Math.SQRT1_2, 0);
+        this.filters.forEach(f => f.set(c));
+    }
+    process(ch, x) { return this.freq > 20 ? this.filters[ch].process(x) : x; }
+}
+
+// Windowed-sinc polyphase oversampler. Latency is a fixed 12 base-rate samples per filter.
+class Oversampler {
+    constructor(factor) {
+        this.factor = factor;
+        this.taps = 24 * factor + 1;
+        this.h = new Float64Array(this.taps);
+        const fc = 0.45 / factor;
+        const mid = (this.taps - 1) / 2;
+        let sum = 0;
+        for (let i = 0; i < this.taps; i++) {
+            const n = i - mid;
+            const sinc = n === 0 ? 2 * fc : Math.sin(2 * Math.PI * fc * n) / (Math.PI * n);
+            const win = 0.42 - 0.5 * Math.cos(2 * Math.PI * i / (this.taps - 1)) + 0.08 * Math.cos(4 * Math.PI * i / (this.taps - 1));
+            this.h[i] = sinc * win;
+            sum += this.h[i];
+        }
+        for (let i = 0; i < this.taps; i++) this.h[i] /= sum;
+        this.baseLen = Math.ceil(this.taps / factor) + 1;
+        this.baseHist = new Float64Array(this.baseLen);
+        this.basePos = 0;
+        this.highHist = new Float64Array(this.taps);
+        this.highPos = 0;
+    }
+    process(x, shape) {
+        const L = this.factor;
+        const h = this.h;
+        this.basePos = (this.basePos + 1) % this.baseLen;
+        this.baseHist[this.basePos] = x;
+        for (let p = 0; p < L; p++) {
+            let up = 0;
+            for (let j = 0; j * L + p < this.taps && j < this.baseLen; j++) {
+                const idx = (this.basePos - j + this.baseLen) % this.baseLen;
+                up += h[j * L + p] * this.baseHist[idx];
+            }
+            this.highPos = (this.highPos + 1) % this.taps;
+            this.highHist[this.highPos] = shape(up * L);
+        }
+        let out = 0;
+        for (let i = 0; i < this.taps; i++) {
+            out += h[i] * this.highHist[(this.highPos - i + this.taps) % this.taps];
+        }
+        return out;
+    }
+}
+
+// Feed-forward, stereo-linked compressor with soft knee and lookahead. Input 1 is the
+// external sidechain key, used instead of the main input when 'sidechain' is on.
+class CompressorProcessor extends AudioWorkletProcessor {
+    static get parameterDescriptors() {
+        return [
+            { name: 'threshold', defaultValue: -24, minValue: -60, maxValue: 0, automationRate: 'k-rate' },
+            { name: 'ratio', defaultValue: 4, minValue: 1, maxValue: 20, automationRate: 'k-rate' },
+            { name: 'knee', defaultValue: 6, minValue: 0, maxValue: 24, automationRate: 'k-rate' },
+            { name: 'attack', defaultValue: 0.003, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
+            { name: 'release', defaultValue: 0.25, minValue: 0, maxValue: 2, automationRate: 'k-rate' },
+            { name: 'makeup', defaultValue: 0, minValue: -24, maxValue: 24, automationRate: 'k-rate' },
+            { name: 'lookahead', defaultValue: 0, minValue: 0, maxValue: 10, automationRate: 'k-rate' },
+            { name: 'sidechain', defaultValue: 0, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
+            { name: 'scHpf', defaultValue: 20, minValue: 20, maxValue: 1000, automationRate: 'k-rate' },
+            { name: 'listen', defaultValue: 0, minValue: 0, maxValue: 1, automationRate: 'k-rate' }
+        ];
+    }
+    constructor() {
+        super();
+        this.env = 0;
+        this.grHold = 0;
+        this.grElapsed = 0;
+        this.keyFilter = new KeyFilter();
+        this.delayLen = Math.ceil(sampleRate * 0.011);
+        this.delay = [new Float32Array(this.delayLen), new Float32Array(this.delayLen)];
+        this.writePos = 0;
+    }
+    process(inputs, outputs, parameters) {
+        const input = inputs[0];
+        const output = outputs[0];
+        if (!output || output.length === 0) return true;
+
+        const threshold = parameters.threshold[0];
+        const ratio = Math.max(1, parameters.ratio[0]);
+        const knee = parameters.knee[0];
+        const att = timeCoeff(parameters.attack[0]);
+        const rel = timeCoeff(parameters.release[0]);
+        const makeup = dbToGain(parameters.makeup[0]);
+        const lookahead = Math.min(this.delayLen - 1, Math.round(parameters.lookahead[0] * 0.001 * sampleRate));
+        // An unconnected sidechain keys off silence rather than silently falling back to the input
+        const key = parameters.sidechain[0] >= 0.5 ? (inputs[1] || []) : input;
+        const listen = parameters.listen[0] >= 0.5;
+        this.keyFilter.set(Math.round(parameters.scHpf[0]));
+
+        const frames = output[0].length;
+        for (let i = 0; i < frames; i++) {
+            let peak = 0;
+            for (let ch = 0; ch < output.length; ch++) {
+                const src = key[ch] || key[0];
+                const x = this.keyFilter.process(Math.min(ch, 1), src ? src[i] : 0);
+                if (listen) output[ch][i] = x;
+                const a = Math.abs(x);
+                if (a > peak) peak = a;
+            }
+            if (listen) continue;
+
+            const target = computeGain(gainToDb(peak), threshold, ratio, knee);
+            const coeff = target < this.env ? att : rel;
+            this.env = coeff * this.env + (1 - coeff) * target;
+            if (this.env < this.grHold) this.grHold = this.env;
+            const g = dbToGain(this.env) * makeup;
+
+            const readPos = (this.writePos - lookahead + this.delayLen) % this.delayLen;
+            for (let ch = 0; ch < output.length; ch++) {
+                const src = input[ch] || input[0];
+                const line = this.delay[ch] || this.delay[0];
+                line[this.writePos] = src ? src[i] : 0;
+                output[ch][i] = line[readPos] * g;
+            }
+            this.writePos = (this.writePos + 1) % this.delayLen;
+        }
+
+        this.grElapsed += frames;
+        if (this.grElapsed >= GR_INTERVAL) {
+            this.port.postMessage({ type: 'gr', values: [this.grHold] });
+            this.grElapsed = 0;
+            this.grHold = 0;
+        }
+        return true;
+    }
+}
+
+// Oversampled waveshaper sharing its transfer function with the engine's WaveShaper curves
+class SaturatorProcessor extends AudioWorkletProcessor {
+    static get parameterDescriptors() {
+        return [
+            { name: 'drive', defaultValue: 20, minValue: 0, maxValue: 100, automationRate: 'k-rate' },
+            { name: 'output', defaultValue: 0, minValue: -24, maxValue: 24, automationRate: 'k-rate' },
+            { name: 'oversample', defaultValue: 4, minValue: 1, maxValue: 16, automationRate: 'k-rate' }
+        ];
+    }
+    constructor(options) {
+        super();
+        this.mode = (options && options.processorOptions && options.processorOptions.mode) || 'TUBE';
+        this.factor = 0;
+        this.oversamplers = [];
+        this.port.onmessage = (e) => {
+            if (e.data && e.data.type === 'mode') this.mode = e.data.mode;
+        };
+    }
+    process(inputs, outputs, parameters) {
+        const input = inputs[0];
+        const output = outputs[0];
+        if (!output || output.length === 0) return true;
+
+        const drive = parameters.drive[0];
+        const out = dbToGain(parameters.output[0]);
+        const factor = Math.max(1, Math.min(16, Math.round(parameters.oversample[0])));
+        if (factor !== this.factor) {
+            this.factor = factor;
+            this.oversamplers = output.map(() => new Oversampler(factor));
+        }
+
+        const mode = this.mode;
+        const shape = (x) => saturateSample(x, drive, mode);
+        for (let ch = 0; ch < output.length; ch++) {
+            const src = input[ch] || input[0];
+            const dst = output[ch];
+            const os = this.oversamplers[ch];
+            for (let i = 0; i < dst.length; i++) {
+                const x = src ? src[i] : 0;
+                dst[i] = (factor > 1 ? os.process(x, shape) : shape(x)) * out;
+            }
+        }
+        return true;
+    }
+}
+
+const cascade = (filters, x) => {
+    let y = x;
+    for (let i = 0; i < filters.length; i++) y = filters[i].process(y);
+    return y;
+};
+
+// Linkwitz-Riley band splitter for one channel. Lower bands run through the allpasses of
+// every crossover above them so all bands stay phase-aligned and sum to a flat response.
+class CrossoverSplitter {
+    constructor() { this.count = -1; this.order = 0; }
+    configure(crossovers, order) {
+        const qs = order === 4 ? [0.5412, 1.3066] : [Math.SQRT1_2];
+        const n = crossovers.length;
+        if (n !== this.count || order !== this.order) {
+            this.count = n;
+            this.order = order;
+            const section = () => qs.flatMap(() => [new Biquad(), new Biquad()]);
+            this.lp = crossovers.map(section);
+            this.hp = crossovers.map(section);
+            this.ap = Array.from({ length: n + 1 }, (_, k) =>
+                Array.from({ length: Math.max(0, n - 1 - k) }, () => qs.map(() => new Biquad())));
+        }
+        crossovers.forEach((freq, j) => {
+            qs.forEach((q, qi) => {
+                const lp = biquadCoeffs('lowpass', freq, q, 0);
+                const hp = biquadCoeffs('highpass', freq, q, 0);
+                this.lp[j][qi * 2].set(lp); this.lp[j][qi * 2 + 1].set(lp);
+                this.hp[j][qi * 2].set(hp); this.hp[j][qi * 2 + 1].set(hp);
+            });
+        });
+        this.ap.forEach((chain, k) => chain.forEach((stage, m) => {
+            const freq = crossovers[k + 1 + m];
+            stage.forEach((f, qi) => f.set(biquadCoeffs('allpass', freq, qs[qi], 0)));
+        }));
+    }
+    split(x, out) {
+        let rest = x;
+        for (let j = 0; j < this.count; j++) {
+            out[j] = cascade(this.lp[j], rest);
+            rest = cascade(this.hp[j], rest);
+        }
+        out[this.count] = rest;
+        for (let k = 0; k < this.count; k++) {
+            const chain = this.ap[k];
+            for (let m = 0; m < chain.length; m++) out[k] = cascade(chain[m], out[k]);
+        }
+    }
+}
+
+const DEFAULT_VOICING = { detector: 'PEAK', knee: 6, attackScale: 1, releaseScale: 1, ratioScale: 1, programRelease: false, saturation: 0 };
+
+// Band compressor. Runs either a Linkwitz-Riley crossover or the legacy parallel bandpass
+// topology, voiced by the selected MultibandStyle. Configuration arrives as a message
+// since the band count is dynamic. With an external key (input 1) each band detects on
+// the same band of the key.
+class MultibandProcessor extends AudioWorkletProcessor {
+    constructor(options) {
+        super();
+        this.bands = [];
+        this.output = 1;
+        this.crossover = false;
+        this.voicing = DEFAULT_VOICING;
+        this.rmsCoeff = timeCoeff(0.01);
+        this.programCoeff = timeCoeff(1.0);
+        this.grElapsed = 0;
+        this.splitters = [new CrossoverSplitter(), new CrossoverSplitter()];
+        this.bandOut = [[], []];
+        this.sidechain = false;
+        this.listen = false;
+        this.keyFilter = new KeyFilter();
+        this.keySplitters = [new CrossoverSplitter(), new CrossoverSplitter()];
+        this.keyBandOut = [[], []];
+        this.port.onmessage = (e) => {
+            if (e.data && e.data.type === 'config') this.configure(e.data);
+        };
+        // Initial config travels with the node so offline renders start configured
+        const initial = options && options.processorOptions && options.processorOptions.config;
+        if (initial) this.configure(initial);
+    }
+    configure(config) {
+        this.output = dbToGain(config.output || 0);
+        this.voicing = config.voicing || DEFAULT_VOICING;
+        const voicing = this.voicing;
+        this.crossover = config.mode === 'crossover' && config.bands.length > 1;
+        const sidechain = config.sidechain || {};
+        this.sidechain = !!sidechain.enabled;
+        this.listen = !!sidechain.listen;
+        this.keyFilter.set(Math.round(sidechain.hpf || 20));
+        if (this.crossover) {
+            this.splitters.forEach(s => s.configure(config.crossovers, config.order));
+            this.keySplitters.forEach(s => s.configure(config.crossovers, config.order));
+        }
+        this.bands = config.bands.map((b, i) => {
+            const prev = this.bands[i];
+            const band = prev || { filters: [new Biquad(), new Biquad()], keyFilters: [new Biquad(), new Biquad()], env: 0, rms: 0, program: 0, grHold: 0 };
+            const c = biquadCoeffs('bandpass', b.freq, b.q, 0);
+            band.filters.forEach(f => f.set(c));
+            band.keyFilters.forEach(f => f.set(c));
+            band.threshold = b.threshold;
+            band.ratio = Math.max(1, 1 + (b.ratio - 1) * voicing.ratioScale);
+            band.att = timeCoeff(b.attack * voicing.attackScale);
+            band.releaseTime = b.release * voicing.releaseScale;
+            band.rel = timeCoeff(band.releaseTime);
+            band.gain = dbToGain(b.gain);
+            return band;
+        });
+    }
+    process(inputs, outputs) {
+        const input = inputs[0];
+        const output = outputs[0];
+        if (!output || output.length === 0) return true;
+
+        const frames = output[0].length;
+        const channels = Math.min(2, output.length);
+        const voicing = this.voicing;
+        const rms = voicing.detector === 'RMS';
+        // Crush: unity small-signal gain, band peaks round off towards 1/drive
+        const drive = voicing.saturation > 0 ? 1 + voicing.saturation : 0;
+        for (let ch = 0; ch < output.length; ch++) output[ch].fill(0);
+        // The key is the (highpassed) main input unless an external sidechain is selected
+        const key = this.sidechain ? (inputs[1] || []) : input;
+        const keyed = [0, 0];
+        // Unfiltered own input: detect on the band signal itself and skip the second split
+        const keyIsInput = !this.sidechain && this.keyFilter.freq <= 20;
+
+        // Opto: release stretches with the band's recent average gain reduction (block rate)
+        if (voicing.programRelease) {
+            for (let b = 0; b < this.bands.length; b++) {
+                const band = this.bands[b];
+                band.rel = timeCoeff(band.releaseTime * (1 + Math.abs(band.program) / 6));
+            }
+        }
+
+        for (let i = 0; i < frames; i++) {
+            for (let ch = 0; ch < channels; ch++) {
+                const src = key[ch] || key[0];
+                keyed[ch] = this.keyFilter.process(ch, src ? src[i] : 0);
+            }
+            if (this.listen) {
+                for (let ch = 0; ch < output.length; ch++) output[ch][i] = keyed[Math.min(ch, channels - 1)];
+                continue;
+            }
+            if (this.crossover) {
+                for (let ch = 0; ch < channels; ch++) {
+                    const src = input[ch] || input[0];
+                    this.splitters[ch].split(src ? src[i] : 0, this.bandOut[ch]);
+                    if (!keyIsInput) this.keySplitters[ch].split(keyed[ch], this.keyBandOut[ch]);
+                }
+            }
+            for (let b = 0; b < this.bands.length; b++) {
+                const band = this.bands[b];
+                let peak = 0;
+                const filtered = [0, 0];
+                for (let ch = 0; ch < channels; ch++) {
+                    let y, k;
+                    if (this.crossover) {
+                        y = this.bandOut[ch][b];
+                        k = keyIsInput ? y : this.keyBandOut[ch][b];
+                    } else {
+                        const src = input[ch] || input[0];
+                        y = band.filters[ch].process(src ? src[i] : 0);
+                        k = keyIsInput ? y : band.keyFilters[ch].process(keyed[ch]);
+                    }
+                    filtered[ch] = y;
+                    const a = Math.abs(k);
+                    if (a > peak) peak = a;
+                }
+                let level = peak;
+                if (rms) {
+                    band.rms = this.rmsCoeff * band.rms + (1 - this.rmsCoeff) * peak * peak;
+                    level = Math.sqrt(band.rms);
+                }
+                const target = computeGain(gainToDb(level), band.threshold, band.ratio, voicing.knee);
+                const coeff = target < band.env ? band.att : band.rel;
+                band.env = coeff * band.env + (1 - coeff) * target;
+                if (band.env < band.grHold) band.grHold = band.env;
+                band.program = this.programCoeff * band.program + (1 - this.programCoeff) * band.env;
+                const g = dbToGain(band.env) * band.gain;
+                for (let ch = 0; ch < channels; ch++) {
+                    const y = filtered[ch] * g;
+                    output[ch][i] += drive ? Math.tanh(y * drive) / drive : y;
+                }
+            }
+            for (let ch = 0; ch < output.length; ch++) output[ch][i] *= this.output;
+        }
+
+        this.grElapsed += frames;
+        if (this.grElapsed >= GR_INTERVAL) {
+            this.port.postMessage({ type: 'gr', values: this.bands.map(b => b.grHold) });
+            this.bands.forEach(b => { b.grHold = 0; });
+            this.grElapsed = 0;
+        }
+        return true;
+    }
+}
+
+// Coefficient refresh interval for the EQ, in samples
+const EQ_STEP = 16;
+
+// Parametric EQ. Each band expands into its shape's filter stages (a cut can be a cascade of
+// up to eight sections). A dynamic band listens to its region of the input (bandpass, or
+// low/highpass for the shelves); the overshoot above the threshold, scaled by the ratio,
+// moves the band from 0 dB towards its set gain, so a cut compresses and a boost expands.
+// Static bands sit at their set gain. Applied gains are reported like GR. A band on Mid or
+// Side filters (L + R) / 2 or (L - R) / 2 and decodes back; Left/Right bands filter one side.
+// The detector of a dynamic band listens to the same channel the band processes.
+class ParametricEqProcessor extends AudioWorkletProcessor {
+    constructor(options) {
+        super();
+        this.bands = [];
+        this.output = 1;
+        this.reportElapsed = 0;
+        this.port.onmessage = (e) => {
+            if (e.data && e.data.type === 'config') this.configure(e.data);
+        };
+        const initial = options && options.processorOptions && options.processorOptions.config;
+        if (initial) this.configure(initial);
+    }
+    configure(config) {
+        this.output = dbToGain(config.output || 0);
+        this.bands = config.bands.map((b, i) => {
+            const band = this.bands[i] || { stages: [], detectors: [new Biquad(), new Biquad()], env: 0 };
+            band.shape = b.shape;
+            band.slope = b.slope;
+            band.freq = b.freq;
+            band.q = b.q;
+            band.gain = b.gain;
+            band.channel = b.channel || 0;
+            band.dynamic = b.dynamic;
+            band.threshold = b.threshold;
+            band.ratio = Math.max(1, b.ratio);
+            band.att = timeCoeff(b.attack);
+            band.rel = timeCoeff(b.release);
+            const detector = b.shape === 'LOW_SHELF' ? 'lowpass' : b.shape === 'HIGH_SHELF' ? 'highpass' : 'bandpass';
+            const c = biquadCoeffs(detector, b.freq, detector === 'bandpass' ? b.q : Math.SQRT1_2, 0);
+            band.detectors.forEach(f => f.set(c));
+            band.applied = null; // Forces a coefficient refresh
+            return band;
+        });
+    }
+    refresh() {
+        for (let b = 0; b < this.bands.length; b++) {
+            const band = this.bands[b];
+            const g = band.dynamic ? band.env : band.gain;
+            if (band.applied !== null && Math.abs(g - band.applied) < 0.01) continue;
+            const stages = getBandStages(band.shape, band.slope, band.freq, g, band.q);
+            // Filter state is kept across refreshes; only a shape change alters the stage count
+            while (band.stages.length < stages.length) band.stages.push([new Biquad(), new Biquad()]);
+            band.stages.length = stages.length;
+            stages.forEach((st, s) => {
+                const c = biquadCoeffs(st.kind, st.freq, st.q, st.gain);
+                band.stages[s].forEach(f => f.set(c));
+            });
+            band.applied = g;
+        }
+    }
+    process(inputs, outputs) {
+        const input = inputs[0];
+        const output = outputs[0];
+        if (!output || output.length === 0) return true;
+
+        const frames = output[0].length;
+        const channels = Math.min(2, output.length);
+        const x = [0, 0];
+        for (let i = 0; i < frames; i++) {
+            if (i % EQ_STEP === 0) this.refresh();
+            for (let ch = 0; ch < channels; ch++) {
+                const src = input[ch] || input[0];
+                x[ch] = src ? src[i] : 0;
+            }
+            for (let b = 0; b < this.bands.length; b++) {
+                const band = this.bands[b];
+                if (!band.dynamic) continue;
+                let peak = 0;
+                const channel = channels < 2 ? 0 : band.channel;
+                if (channel === 0) {
+                    for (let ch = 0; ch < channels; ch++) {
+                        const a = Math.abs(band.detectors[ch].process(x[ch]));
+                        if (a > peak) peak = a;
+                    }
+                } else {
+                    const d = channel === 1 ? (x[0] + x[1]) * 0.5 : channel === 2 ? (x[0] - x[1]) * 0.5 : x[channel - 3];
+                    peak = Math.abs(band.detectors[0].process(d));
+                }
+                const over = Math.max(0, gainToDb(peak) - band.threshold) * (1 - 1 / band.ratio);
+                const target = band.gain < 0 ? -Math.min(over, -band.gain) : Math.min(over, band.gain);
+                const coeff = Math.abs(target) > Math.abs(band.env) ? band.att : band.rel;
+                band.env = coeff * band.env + (1 - coeff) * target;
+            }
+            let l = x[0];
+            let r = x[1];
+            for (let b = 0; b < this.bands.length; b++) {
+                const stages = this.bands[b].stages;
+                const channel = channels < 2 ? 0 : this.bands[b].channel;
+                if (channel === 1 || channel === 2) {
+                    let m = (l + r) * 0.5;
+                    let sd = (l - r) * 0.5;
+                    if (channel === 1) for (let s = 0; s < stages.length; s++) m = stages[s][0].process(m);
+                    else for (let s = 0; s < stages.length; s++) sd = stages[s][0].process(sd);
+                    l = m + sd;
+                    r = m - sd;
+                    continue;
+                }
+                if (channel !== 4) for (let s = 0; s < stages.length; s++) l = stages[s][0].process(l);
+                if (channel !== 3 && channels > 1) for (let s = 0; s < stages.length; s++) r = stages[s][1].process(r);
+            }
+            output[0][i] = l * this.output;
+            if (channels > 1) output[1][i] = r * this.output;
+            for (let ch = channels; ch < output.length; ch++) output[ch][i] = output[0][i];
+        }
+
+        this.reportElapsed += frames;
+        if (this.reportElapsed >= GR_INTERVAL) {
+            this.port.postMessage({ type: 'eqGains', values: this.bands.map(b => (b.dynamic ? b.env : b.gain)) });
+            this.reportElapsed = 0;
+        }
+        return true;
+    }
+}
+
+// Master-bus meter: BS.1770 loudness, true peak and correlation, posted every 100 ms
+class MeterProcessor extends AudioWorkletProcessor {
+    constructor() {
+        super();
+        this.analyzer = createLoudnessAnalyzer(sampleRate);
+        this.interval = Math.round(sampleRate * 0.1);
+        this.elapsed = 0;
+        this.port.onmessage = (e) => {
+            if (e.data && e.data.type === 'reset') this.analyzer.reset();
+        };
+    }
+    process(inputs) {
+        const input = inputs[0];
+        if (!input || input.length === 0) return true;
+        const frames = input[0].length;
+        this.analyzer.process(input[0], input[1] || input[0], frames);
+        this.elapsed += frames;
+        if (this.elapsed >= this.interval) {
+            this.elapsed = 0;
+            this.port.postMessage(Object.assign({ type: 'loudness' }, this.analyzer.snapshot()));
+        }
+        return true;
+    }
+}
+
+registerProcessor('sf-compressor', CompressorProcessor);
+registerProcessor('sf-saturator', SaturatorProcessor);
+registerProcessor('sf-multiband', MultibandProcessor);
+registerProcessor('sf-eq', ParametricEqProcessor);
+registerProcessor('sf-meter', MeterProcessor);
+`;
+
+let workletUrl: string | null = null;
+
+export const loadDspWorklet = (context: BaseAudioContext): Promise<void> => {
+    if (!context.audioWorklet) {
+        return Promise.reject(new Error('AudioWorklet not supported'));
+    }
+    if (!workletUrl) {
+        workletUrl = URL.createObjectURL(new Blob([PROCESSORS], { type: 'application/javascript' }));
+    }
+    return context.audioWorklet.addModule(workletUrl);
+};
@@ -0,0 +1,12 @@
+// Dynamic bands of the parametric EQ. A dynamic band reuses the multiband per-band dynamics
+// params: b{i}Dyn is its threshold, b{i}Ratio/Attack/Release shape the movement, and its
+// b{i}Gain becomes the most it will cut or boost. Only bells and shelves can be dynamic.
+
+import { getBandShape, shapeSupportsDynamics } from './eqShapes';
+import { getBands } from './bands';
+
+export const isDynamicBand = (params: Record<string, number>, band: number) =>
+    (params[`b${band}DynOn`] || 0) >= 0.5 && shapeSupportsDynamics(getBandShape(params, band));
+
+export const hasDynamicBands = (params: Record<string, number>) => getBands(params).some(i => isDynamicBand(params, i));
+
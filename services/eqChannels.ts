@@ -0,0 +1,38 @@
+// Channel a parametric EQ band works on. Mid and Side bands process (L + R) / 2 and (L - R) / 2
+// and decode back to L/R after the band; Left and Right bands leave the other side untouched.
+
+export const EQ_CHANNELS = ['Stereo', 'Mid', 'Side', 'Left', 'Right'];
+export const EQ_CHANNEL_TAGS = ['', 'M', 'S', 'L', 'R'];
+export const EQ_CHANNEL_COLORS = ['#ffffff', '#22d3ee', '#f472b6', '#a3e635', '#fb923c'];
+
+export const getBandChannel = (params: Record<string, number>, band: number) => {
+    const index = params[`b${band}Chan`];
+    if (typeof index !== 'number' || !Number.isFinite(index)) return 0;
+    return Math.max(0, Math.min(EQ_CHANNELS.length - 1, Math.round(index)));
+};
+
+export const hasChannelBands = (params: Record<string, number>, bands: number[]) => bands.some(i => getBandChannel(params, i) > 0);
+
+// Row-major 2x2 L/R matrix [LL, LR, RL, RR]: y = M x
+export type ChannelMatrix = [number, number, number, number];
+
+// What a band with real (zero-phase) gain `h` does to the L/R pair
+export const bandChannelMatrix = (channel: number, h: number): ChannelMatrix => {
+    const p = (h + 1) / 2;
+    const q = (h - 1) / 2;
+    switch (channel) {
+        case 1: return [p, q, q, p];
+        case 2: return [p, -q, -q, p];
+        case 3: return [h, 0, 0, 1];
+        case 4: return [1, 0, 0, h];
+        default: return [h, 0, 0, h];
+    }
+};
+
+// `after` applied to the output of `before`
+export const multiplyChannelMatrix = (after: ChannelMatrix, before: ChannelMatrix): ChannelMatrix => [
+    after[0] * before[0] + after[1] * before[2],
+    after[0] * before[1] + after[1] * before[3],
+    after[2] * before[0] + after[3] * before[2],
+    after[2] * before[1] + after[3] * before[3]
+];
@@ -0,0 +1,170 @@
+// Band shapes of the parametric EQ. A band expands into one or more filter stages whose
+// coefficients come from a single designer, shared by the EQ worklet (serialized via
+// toString), the curve display and the linear-phase FIR, so what is drawn is what runs.
+
+export type EqShape = 'BELL' | 'LOW_SHELF' | 'HIGH_SHELF' | 'LOW_CUT' | 'HIGH_CUT' | 'NOTCH' | 'BANDPASS' | 'TILT' | 'ALLPASS';
+
+// Index order is the value stored in b{i}Type
+export const EQ_SHAPES: { shape: EqShape; label: string }[] = [
+    { shape: 'BELL', label: 'Bell' },
+    { shape: 'LOW_SHELF', label: 'Low Shelf' },
+    { shape: 'HIGH_SHELF', label: 'High Shelf' },
+    { shape: 'LOW_CUT', label: 'Low Cut' },
+    { shape: 'HIGH_CUT', label: 'High Cut' },
+    { shape: 'NOTCH', label: 'Notch' },
+    { shape: 'BANDPASS', label: 'Band Pass' },
+    { shape: 'TILT', label: 'Tilt' },
+    { shape: 'ALLPASS', label: 'All Pass' }
+];
+
+// dB/oct, index order is the value stored in b{i}Slope
+export const CUT_SLOPES = [6, 12, 24, 48, 96];
+export const DEFAULT_CUT_SLOPE = 2; // 24 dB/oct
+
+// Band 1 and 7 start as shelves, the rest as bells
+export const getDefaultShapeIndex = (band: number) => (band === 1 ? 1 : band === 7 ? 2 : 0);
+
+export const getBandShape = (params: Record<string, number>, band: number): EqShape => {
+    const index = params[`b${band}Type`];
+    const i = typeof index === 'number' && Number.isFinite(index) ? Math.round(index) : getDefaultShapeIndex(band);
+    return (EQ_SHAPES[i] || EQ_SHAPES[0]).shape;
+};
+
+export const getCutSlope = (params: Record<string, number>, band: number) => {
+    const index = params[`b${band}Slope`];
+    const i = typeof index === 'number' && Number.isFinite(index) ? Math.round(index) : DEFAULT_CUT_SLOPE;
+    return CUT_SLOPES[Math.max(0, Math.min(CUT_SLOPES.length - 1, i))];
+};
+
+// Shapes the gain handle moves; the others are placed by frequency (and Q) only
+export const shapeHasGain = (shape: EqShape) => shape === 'BELL' || shape === 'LOW_SHELF' || shape === 'HIGH_SHELF' || shape === 'TILT';
+export const shapeSupportsDynamics = (shape: EqShape) => shape === 'BELL' || shape === 'LOW_SHELF' || shape === 'HIGH_SHELF';
+export const isCutShape = (shape: EqShape) => shape === 'LOW_CUT' || shape === 'HIGH_CUT';
+
+export interface EqStage {
+    kind: string; // BiquadFilterType, or 'lowpass1' / 'highpass1' for first-order stages
+    freq: number;
+    q: number;
+    gain: number;
+}
+
+// Must stay self-contained (see above). Cuts are Butterworth cascades with the band Q scaling
+// the resonance of the last section, so the default Q of 1 is maximally flat; the tilt is a
+// pair of opposing shelves pivoting at `freq`.
+export function getBandStages(shape: string, slope: number, freq: number, gain: number, q: number): EqStage[] {
+    switch (shape) {
+        case 'LOW_SHELF': return [{ kind: 'lowshelf', freq, q, gain }];
+        case 'HIGH_SHELF': return [{ kind: 'highshelf', freq, q, gain }];
+        case 'NOTCH': return [{ kind: 'notch', freq, q, gain: 0 }];
+        case 'BANDPASS': return [{ kind: 'bandpass', freq, q, gain: 0 }];
+        case 'ALLPASS': return [{ kind: 'allpass', freq, q, gain: 0 }];
+        case 'TILT': return [{ kind: 'lowshelf', freq, q, gain: -gain / 2 }, { kind: 'highshelf', freq, q, gain: gain / 2 }];
+        case 'LOW_CUT':
+        case 'HIGH_CUT': {
+            const pass = shape === 'LOW_CUT' ? 'highpass' : 'lowpass';
+            const order = Math.max(1, Math.round(slope / 6));
+            const stages: EqStage[] = [];
+            if (order % 2 === 1) stages.push({ kind: pass + '1', freq, q, gain: 0 });
+            const pairs = Math.floor(order / 2);
+            for (let k = 0; k < pairs; k++) {
+                const butterworth = 1 / (2 * Math.cos((Math.PI * (2 * k + 1)) / (2 * order)));
+                const resonance = k === pairs - 1 ? q : 1;
+                stages.push({ kind: pass, freq, q: butterworth * resonance, gain: 0 });
+            }
+            return stages;
+        }
+        case 'BELL':
+        default:
+            return [{ kind: 'peaking', freq, q, gain }];
+    }
+}
+
+// RBJ cookbook coefficients normalized by a0, matching BiquadFilterNode (shelves use slope 1
+// and ignore q). First-order stages use the bilinear transform. Must stay self-contained.
+export function eqStageCoeffs(kind: string, freq: number, q: number, gainDb: number, rate: number) {
+    const w0 = 2 * Math.PI * Math.min(freq, rate * 0.49) / rate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * Math.max(q, 0.0001));
+    const A = Math.pow(10, gainDb / 40);
+    const shelf = 2 * Math.sqrt(A) * Math.sin(w0) / Math.SQRT2;
+    let b0, b1, b2, a0, a1, a2;
+    switch (kind) {
+        case 'lowpass1':
+        case 'highpass1': {
+            const k = Math.tan(w0 / 2);
+            const n = 1 / (1 + k);
+            return kind === 'lowpass1'
+                ? { b0: k * n, b1: k * n, b2: 0, a1: (k - 1) * n, a2: 0 }
+                : { b0: n, b1: -n, b2: 0, a1: (k - 1) * n, a2: 0 };
+        }
+        case 'lowshelf':
+            b0 = A * ((A + 1) - (A - 1) * cos + shelf); b1 = 2 * A * ((A - 1) - (A + 1) * cos); b2 = A * ((A + 1) - (A - 1) * cos - shelf);
+            a0 = (A + 1) + (A - 1) * cos + shelf; a1 = -2 * ((A - 1) + (A + 1) * cos); a2 = (A + 1) + (A - 1) * cos - shelf;
+            break;
+        case 'highshelf':
+            b0 = A * ((A + 1) + (A - 1) * cos + shelf); b1 = -2 * A * ((A - 1) + (A + 1) * cos); b2 = A * ((A + 1) + (A - 1) * cos - shelf);
+            a0 = (A + 1) - (A - 1) * cos + shelf; a1 = 2 * ((A - 1) - (A + 1) * cos); a2 = (A + 1) - (A - 1) * cos - shelf;
+            break;
+        case 'lowpass':
+            b0 = (1 - cos) / 2; b1 = 1 - cos; b2 = (1 - cos) / 2;
+            a0 = 1 + alpha; a1 = -2 * cos; a2 = 1 - alpha;
+            break;
+        case 'highpass':
+            b0 = (1 + cos) / 2; b1 = -(1 + cos); b2 = (1 + cos) / 2;
+            a0 = 1 + alpha; a1 = -2 * cos; a2 = 1 - alpha;
+            break;
+        case 'bandpass':
+            b0 = alpha; b1 = 0; b2 = -alpha;
+            a0 = 1 + alpha; a1 = -2 * cos; a2 = 1 - alpha;
+            break;
+        case 'notch':
+            b0 = 1; b1 = -2 * cos; b2 = 1;
+            a0 = 1 + alpha; a1 = -2 * cos; a2 = 1 - alpha;
+            break;
+        case 'allpass':
+            b0 = 1 - alpha; b1 = -2 * cos; b2 = 1 + alpha;
+            a0 = 1 + alpha; a1 = -2 * cos; a2 = 1 - alpha;
+            break;
+        case 'peaking':
+        default:
+            b0 = 1 + alpha * A; b1 = -2 * cos; b2 = 1 - alpha * A;
+            a0 = 1 + alpha / A; a1 = -2 * cos; a2 = 1 - alpha / A;
+            break;
+    }
+    return { b0: b0 / a0, b1: b1 / a0, b2: b2 / a0, a1: a1 / a0, a2: a2 / a0 };
+}
+
+// All stages of one band from its params
+export const getBandStagesFromParams = (params: Record<string, number>, band: number, gainOverride?: number) => {
+    const v = (key: string, def: number) => (typeof params[key] === 'number' && Number.isFinite(params[key]) ? params[key] : def);
+    return getBandStages(
+        getBandShape(params, band),
+        getCutSlope(params, band),
+        v(`b${band}Freq`, 1000),
+        gainOverride ?? v(`b${band}Gain`, 0),
+        v(`b${band}Q`, 1.0)
+    );
+};
+
+export type EqCoeffs = ReturnType<typeof eqStageCoeffs>;
+
+export const designStages = (stages: EqStage[], rate: number): EqCoeffs[] =>
+    stages.map(st => eqStageCoeffs(st.kind, st.freq, st.q, st.gain, rate));
+
+// Complex response of designed stages at `freq`: linear magnitude and phase in radians
+export const stagesResponse = (coeffs: EqCoeffs[], freq: number, rate: number) => {
+    const w = (2 * Math.PI * freq) / rate;
+    const c1 = Math.cos(w), s1 = Math.sin(w), c2 = Math.cos(2 * w), s2 = Math.sin(2 * w);
+    let mag = 1;
+    let phase = 0;
+    for (let i = 0; i < coeffs.length; i++) {
+        const c = coeffs[i];
+        const nr = c.b0 + c.b1 * c1 + c.b2 * c2;
+        const ni = -(c.b1 * s1 + c.b2 * s2);
+        const dr = 1 + c.a1 * c1 + c.a2 * c2;
+        const di = -(c.a1 * s1 + c.a2 * s2);
+        mag *= Math.sqrt((nr * nr + ni * ni) / (dr * dr + di * di));
+        phase += Math.atan2(ni, nr) - Math.atan2(di, dr);
+    }
+    return { mag, phase };
+};
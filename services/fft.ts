@@ -0,0 +1,44 @@
+// In-place iterative radix-2 FFT on split real/imaginary arrays. The length must be a power
+// of two. The inverse transform is scaled by 1/N so a forward/inverse round trip is exact.
+export const fft = (re: Float64Array, im: Float64Array, inverse = false) => {
+    const n = re.length;
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+        const wr = Math.cos(angle);
+        const wi = Math.sin(angle);
+        const half = size >> 1;
+        for (let start = 0; start < n; start += size) {
+            let cr = 1, ci = 0;
+            for (let k = 0; k < half; k++) {
+                const a = start + k;
+                const b = a + half;
+                const tr = re[b] * cr - im[b] * ci;
+                const ti = re[b] * ci + im[b] * cr;
+                re[b] = re[a] - tr;
+                im[b] = im[a] - ti;
+                re[a] += tr;
+                im[a] += ti;
+                const next = cr * wr - ci * wi;
+                ci = cr * wi + ci * wr;
+                cr = next;
+            }
+        }
+    }
+
+    if (inverse) {
+        for (let i = 0; i < n; i++) {
+            re[i] /= n;
+            im[i] /= n;
+        }
+    }
+};
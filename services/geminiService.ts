@@ -1,6 +1,17 @@
 
 import { GoogleGenAI } from "@google/genai";
-import { PluginModuleState, PluginType } from "../types";
+import { PluginModuleState, PluginType, RoutingGraph } from "../types";
+import { getMultibandVoicing } from "./multibandStyles";
+import { getDivision } from "./tempo";
+import { describeRouting } from "./routing";
+import { isDynamicBand } from "./dynamicEq";
+import { getBandCount, getBands } from "./bands";
+import { EQ_SHAPES, getBandShape, getCutSlope, isCutShape } from "./eqShapes";
+import { EQ_CHANNELS, getBandChannel, hasChannelBands } from "./eqChannels";
+import { getFirLatency, getFirLength, isLinearPhase } from "./linearPhase";
+import { getMatchAmount, getMatchFilterCurve, matchGainAt } from "./spectralMatch";
+import { MAX_VOICES, NOISE_TYPES, SYNTH_WAVEFORMS } from "./synth";
+import { getChainLatency, getModuleLatency, OVERSAMPLE_OPTIONS, oversampleFactor } from "./latency";
 
 const getAi = () => {
     if (!process.env.API_KEY) {
@@ -13,18 +24,122 @@ const getAi = () => {
 export const generatePluginCode = async (
     modules: PluginModuleState[], 
     userPrompt: string = "", 
-    pluginName: string = "MyPlugin"
+    pluginName: string = "MyPlugin",
+    routing: RoutingGraph | null = null
 ) => {
   const ai = getAi();
   if (!ai) return { cppCode: "// API Key missing", headerCode: "", explanation: "Please set API_KEY" };
 
-  const moduleDescriptions = modules.map(m => `${m.type} (Settings: ${JSON.stringify(m.params)})`).join(', ');
+  // Dynamics modules can key off an external sidechain bus instead of their own input
+  const describeSidechain = (m: PluginModuleState) => {
+      const source = Math.round(m.params.scSource || 0);
+      if (!source) return m.params.scHpf > 20 ? `, detector highpassed at ${m.params.scHpf} Hz` : '';
+      const key = source === 1 ? 'the external sidechain input bus' : 'a kick-like test pulse on every beat of the host tempo';
+      return `, detector keyed from ${key}, highpassed at ${m.params.scHpf || 20} Hz${m.params.scListen >= 0.5 ? ', key listen (output the filtered key)' : ''}`;
+  };
+
+  // Nonlinear stages run at a multiple of the host rate to keep aliasing down
+  const describeOversampling = (value: number | undefined, stage: string) => {
+      const factor = oversampleFactor(value);
+      return factor > 1
+          ? `, ${stage} oversampled ${OVERSAMPLE_OPTIONS[Math.log2(factor)]} with juce::dsp::Oversampling (linear-phase FIR filters)`
+          : `, ${stage} not oversampled`;
+  };
+
+  // Dynamic EQ bands move between 0 dB and their set gain with the band's own level
+  const describeDynamicBands = (m: PluginModuleState) => {
+      const bands = getBands(m.params).filter(i => isDynamicBand(m.params, i));
+      if (!bands.length) return '';
+      const list = bands.map(i => `band ${i}: threshold b${i}Dyn dB, ratio b${i}Ratio, attack b${i}Attack s, release b${i}Release s, range b${i}Gain dB`).join('; ');
+      return `, dynamic bands (detector is the band's own bandpass, or low/highpass for the shelves, on the input; gain = min(|range|, overshoot * (1 - 1/ratio)) in the direction of the range, smoothed by attack/release, coefficients refreshed every 16 samples) - ${list}`;
+  };
+
+  // Each EQ band is one of several shapes; cuts cascade Butterworth sections
+  const describeBandShapes = (m: PluginModuleState) => {
+      const bands = getBands(m.params).map(i => {
+          const shape = getBandShape(m.params, i);
+          const label = EQ_SHAPES.find(s => s.shape === shape)?.label.toLowerCase();
+          const channel = getBandChannel(m.params, i);
+          return `band ${i} ${label}${isCutShape(shape) ? ` ${getCutSlope(m.params, i)} dB/oct` : ''}${channel ? ` on ${EQ_CHANNELS[channel].toLowerCase()}` : ''}`;
+      });
+      const channels = hasChannelBands(m.params, getBands(m.params))
+          ? '; bands run in order, a mid/side band encodes M = (L + R) / 2, S = (L - R) / 2, filters one of them and decodes L = M + S, R = M - S, a left/right band filters that channel only (its detector listens to the same signal)'
+          : '';
+      return `${bands.join(', ')}${channels}; RBJ biquads, shelves with slope 1, cuts as Butterworth cascades (a first-order section for odd orders) with b{i}Q scaling the last section's resonance (1 = maximally flat), notch/band pass/all pass at b{i}Q, tilt as a low shelf at -gain/2 and a high shelf at +gain/2 on the same frequency`;
+  };
+
+  // Reference match applied through the FIR, summarized at octave centres
+  const describeMatchFilter = (m: PluginModuleState) => {
+      const curve = getMatchFilterCurve(m);
+      if (!curve) return '';
+      const amount = getMatchAmount(m.params);
+      const points = [31, 63, 125, 250, 500, 1000, 2000, 4000, 8000, 16000]
+          .map(f => `${f} Hz ${(matchGainAt(curve, f) * amount).toFixed(1)} dB`).join(', ');
+      return `, the FIR magnitude is also multiplied by a spectral match curve towards "${m.spectralMatch?.reference}" (interpolate in log frequency between ${points})`;
+  };
+
+  const describeModule = (m: PluginModuleState) => {
+      if (m.type === PluginType.VISUAL_EQ && !isLinearPhase(m.params)) {
+          return `${m.type} (${getBandCount(m.params)} bands: ${describeBandShapes(m)}${describeDynamicBands(m)}; Settings: ${JSON.stringify(m.params)})`;
+      }
+      if (m.type === PluginType.VISUAL_EQ && isLinearPhase(m.params)) {
+          const length = getFirLength(m.params.firLength);
+          return `${m.type} (Linear-phase: design a ${length}-tap symmetric FIR from the combined magnitude of the ${getBandCount(m.params)} bands (${describeBandShapes(m)}); with single-channel bands, each bin is a 2x2 L/R matrix product and four kernels (L->L, L->R, R->L, R->R) are designed; zero phase rotated to the kernel centre with a Blackman window, run with juce::dsp::Convolution and redesigned off the audio thread when a band changes${describeMatchFilter(m)}; latency ${getFirLatency(length)} samples; Settings: ${JSON.stringify(m.params)})`;
+      }
+      if (m.type === PluginType.SATURATION) {
+          return `${m.type} (Waveshaper${describeOversampling(m.params.oversample, 'shaper')}; Settings: ${JSON.stringify(m.params)})`;
+      }
+      if (m.type === PluginType.HYBRID_EQ_DYN && m.nestedModules?.includes(PluginType.SATURATION)) {
+          return `${m.type} (Contains: ${m.nestedModules.join(', ')}${describeOversampling(m.params.oversampleSat, 'saturation')}; Settings: ${JSON.stringify(m.params)})`;
+      }
+      if (m.type === PluginType.MULTIBAND) {
+          const style = m.multibandStyle || 'CLEAN';
+          return `${m.type} (Style: ${style} - ${getMultibandVoicing(style).summary}${describeSidechain(m)}; Settings: ${JSON.stringify(m.params)})`;
+      }
+      if (m.type === PluginType.COMPRESSOR) {
+          const lookahead = m.params.lookahead > 0 ? `, ${m.params.lookahead} ms lookahead delaying the audio path` : '';
+          return `${m.type} (Feed-forward${lookahead}${describeSidechain(m)}; Settings: ${JSON.stringify(m.params)})`;
+      }
+      if (m.type === PluginType.DELAY) {
+          const routing = m.params.pingPong >= 0.5 ? 'ping-pong' : 'independent L/R';
+          const timing = m.params.sync >= 0.5
+              ? `synced to host BPM at ${getDivision(m.params.noteL ?? 8).label} / ${getDivision(m.params.noteR ?? 7).label}`
+              : 'free-running times in seconds';
+          return `${m.type} (Stereo ${routing}, ${timing}, HPF/LPF and tape saturation inside the feedback loop${describeOversampling(m.params.fbOversample, 'feedback saturation')}; Settings: ${JSON.stringify(m.params)})`;
+      }
+      if (m.type === PluginType.OSCILLATOR) {
+          const wave = SYNTH_WAVEFORMS[Math.round(m.params.waveform)] || 'Saw';
+          const noise = NOISE_TYPES[Math.round(m.params.noiseType)] || 'Off';
+          const hold = m.params.hold >= 0.5 ? ', plus a held tone at the frequency param' : '';
+          return `${m.type} (Synth source added on top of the incoming audio: a juce::Synthesiser with ${MAX_VOICES} voices driven by host MIDI${hold}; each voice is ${Math.round(m.params.unison)} band-limited ${wave.toLowerCase()} oscillator(s) detuned across the spread and panned across the stereo field, pulse as a saw minus a copy delayed by width / f with an LFO modulating the delay for PWM, ${noise.toLowerCase()} noise mixed at the noise level, and a juce::ADSR on the voice; Settings: ${JSON.stringify(m.params)})`;
+      }
+      if (m.type === PluginType.REVERB && m.impulse && m.params.irSource >= 0.5) {
+          return `${m.type} (Convolution with user IR "${m.impulse.name}", ${m.impulse.duration.toFixed(2)}s; Settings: ${JSON.stringify(m.params)})`;
+      }
+      return `${m.type} (Settings: ${JSON.stringify(m.params)})`;
+  };
+  // Numbered in signal-flow order, since processing order changes the result
+  const moduleDescriptions = modules
+      .map((m, i) => `${i + 1}. ${describeModule(m)}${m.enabled ? '' : ' [BYPASSED]'}`)
+      .join(' -> ');
+
+  // A routing graph replaces the linear order with an explicit topology
+  const architecture = routing
+      ? `- The plugin is a routing graph of split, merge and module nodes. Every connection carries a stereo buffer.
+    ${describeRouting(routing, modules, describeModule)}
+    - processBlock must follow this topology exactly: give each branch its own buffer, process nodes in dependency order and sum branches where they meet.`
+      : `- The plugin chain, in signal-flow order (input first): ${moduleDescriptions}.
+    - processBlock must run the modules in exactly this order.`;
+
+  // The prototype's own figure at 48 kHz, so the generated reporting can be sanity-checked
+  const referenceLatency = getChainLatency(modules, routing, m => getModuleLatency(m, 48000, true));
 
   const prompt = `
     You are an expert DSP audio engineer. Write the C++ JUCE framework code for a VST3 plugin named "${pluginName}".
     
     System Architecture:
-    - The plugin chain includes: ${moduleDescriptions}.
+    ${architecture}
+    - Latency: in prepareToPlay call setLatencySamples() with the latency of the slowest input-to-output path, summing each enabled module's own latency (oversampler getLatencyInSamples(), lookahead in samples at the current rate). Delay-compensate shorter parallel branches so they stay time-aligned, and report again whenever an oversampling or lookahead setting changes. The browser prototype measures ${referenceLatency} samples at 48 kHz.
     
     User Customization Request:
     "${userPrompt}"
@@ -32,6 +147,7 @@ export const generatePluginCode = async (
     Please provide:
     1. The 'processBlock' function for PluginProcessor.cpp (ensure it handles the chain logic).
     2. The private member variables for PluginProcessor.h.
+    3. prepareToPlay, including the oversampler setup and the setLatencySamples() call.
     
     Format the response purely as a JSON object with keys: "cppCode", "headerCode", "explanation".
     Do not include markdown code blocks in the JSON string values.
@@ -0,0 +1,86 @@
+// Harmonic analysis of the saturation shaper. A sine is driven through the same WaveShaper curve
+// the preview uses, sampled coherently (a whole number of cycles per FFT) so every harmonic
+// lands in a single bin without windowing. The shaper runs at the module's oversampled rate and
+// only the base band is kept, i.e. an ideal decimation filter: whatever aliases back into the
+// band shows up in THD+N but not in the harmonics. THD+N is taken against the whole output
+// rather than the fundamental, so it stays meaningful for RECTIFY, which cancels the fundamental.
+
+import { SaturationMode } from '../types';
+import { saturateSample } from './dspWorklet';
+import { fft } from './fft';
+
+export const SATURATION_MODES: SaturationMode[] = ['TUBE', 'TAPE', 'DIGITAL', 'FUZZ', 'RECTIFY'];
+// Test sine levels in dBFS
+export const TEST_LEVELS = [0, -6, -12, -18];
+export const DEFAULT_TEST_LEVEL = 1;
+export const HARMONIC_COUNT = 10;
+
+const FFT_SIZE = 8192;
+const TEST_FREQ = 1000;
+const CURVE_SAMPLES = 44100;
+const FLOOR_DB = -120;
+
+// WaveShaper curve for `mode` at `amount` drive, shared by the engine's native path
+export const makeDistortionCurve = (amount: number, mode: SaturationMode = 'TUBE') => {
+    const curve = new Float32Array(CURVE_SAMPLES);
+    for (let i = 0; i < CURVE_SAMPLES; ++i) {
+        const x = (i * 2) / CURVE_SAMPLES - 1;
+        curve[i] = saturateSample(x, amount, mode);
+    }
+    return curve;
+};
+
+// Curve lookup as WaveShaperNode does it: -1..1 spread over the curve, linearly interpolated
+export const applyCurve = (curve: Float32Array, input: number) => {
+    const pos = ((Math.max(-1, Math.min(1, input)) + 1) / 2) * (curve.length - 1);
+    const i = Math.min(curve.length - 2, Math.floor(pos));
+    return curve[i] + (curve[i + 1] - curve[i]) * (pos - i);
+};
+
+export interface HarmonicAnalysis {
+    frequency: number; // Test tone, Hz
+    harmonics: (number | null)[]; // Orders 1..HARMONIC_COUNT in dBFS, null above Nyquist
+    thdN: number; // Everything but DC and the fundamental, % of the output without DC
+    evenShare: number; // Fraction of the in-band harmonic power in even orders
+    dc: number; // Output DC offset
+}
+
+export const analyzeHarmonics = (curve: Float32Array, levelDb: number, sampleRate: number, oversample = 1): HarmonicAnalysis => {
+    const factor = Math.max(1, Math.round(oversample));
+    const n = FFT_SIZE * factor;
+    const bin = Math.max(1, Math.round((TEST_FREQ * FFT_SIZE) / sampleRate));
+    const amplitude = Math.pow(10, levelDb / 20);
+
+    const re = new Float64Array(n);
+    const im = new Float64Array(n);
+    for (let i = 0; i < n; i++) re[i] = applyCurve(curve, amplitude * Math.sin((2 * Math.PI * bin * i) / n));
+    fft(re, im);
+
+    const power = (k: number) => re[k] * re[k] + im[k] * im[k];
+    // Single-sided amplitude of a bin in dBFS
+    const toDb = (p: number) => Math.max(FLOOR_DB, 20 * Math.log10(Math.max((2 * Math.sqrt(p)) / n, 1e-9)));
+
+    let rest = 0;
+    for (let k = 1; k <= FFT_SIZE / 2; k++) if (k !== bin) rest += power(k);
+    const all = rest + power(bin);
+
+    let even = 0, total = 0;
+    const harmonics = Array.from({ length: HARMONIC_COUNT }, (_, i) => {
+        const order = i + 1;
+        if (order * bin > FFT_SIZE / 2) return null;
+        const p = power(order * bin);
+        if (order > 1) {
+            total += p;
+            if (order % 2 === 0) even += p;
+        }
+        return toDb(p);
+    });
+
+    return {
+        frequency: (bin * sampleRate) / FFT_SIZE,
+        harmonics,
+        thdN: all > 0 ? Math.sqrt(rest / all) * 100 : 0,
+        evenShare: total > 0 ? even / total : 0,
+        dc: re[0] / n
+    };
+};
@@ -0,0 +1,88 @@
+// Oversampling choices for the nonlinear modules and the latency every module adds, in
+// samples at the running rate. The engine uses this for its report and the code generator
+// for the setLatencySamples() it asks for.
+
+import { PluginModuleState, PluginType, RoutingGraph } from '../types';
+import { INPUT_NODE_ID, OUTPUT_NODE_ID } from './routing';
+import { getFirLatency, getFirLength, isLinearPhase } from './linearPhase';
+
+export const OVERSAMPLE_OPTIONS = ['Off', '2x', '4x', '8x', '16x'];
+export const DEFAULT_OVERSAMPLE = 2; // 4x
+
+export const oversampleFactor = (index: number = DEFAULT_OVERSAMPLE) =>
+    Math.pow(2, Math.max(0, Math.min(OVERSAMPLE_OPTIONS.length - 1, Math.round(index))));
+
+// WaveShaperNode stops at 4x; higher settings need the worklet saturator
+export const nativeOversample = (factor: number): OverSampleType =>
+    factor >= 4 ? '4x' : factor === 2 ? '2x' : 'none';
+
+// sf-saturator: up and down filters each delay 12 base-rate samples, whatever the factor
+const WORKLET_OVERSAMPLE_LATENCY = 24;
+// Chromium's WaveShaperNode resamplers (128-tap up, 256-tap down kernels per 2x stage)
+const NATIVE_OVERSAMPLE_LATENCY: Record<string, number> = { none: 0, '2x': 128, '4x': 192 };
+// Chromium's DynamicsCompressorNode always runs a 256 frame pre-delay
+const NATIVE_COMPRESSOR_LATENCY = 256;
+
+const param = (module: PluginModuleState, key: string, fallback: number) => {
+    const value = module.params[key];
+    return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+};
+
+// Native modules report Chromium's figures; other browsers may differ slightly
+export const getModuleLatency = (module: PluginModuleState, sampleRate: number, worklet: boolean): number => {
+    switch (module.type) {
+        case PluginType.VISUAL_EQ:
+            return isLinearPhase(module.params) ? getFirLatency(getFirLength(module.params.firLength)) : 0;
+        case PluginType.SATURATION: {
+            const factor = oversampleFactor(param(module, 'oversample', DEFAULT_OVERSAMPLE));
+            if (worklet) return factor > 1 ? WORKLET_OVERSAMPLE_LATENCY : 0;
+            return NATIVE_OVERSAMPLE_LATENCY[nativeOversample(factor)];
+        }
+        case PluginType.COMPRESSOR:
+            return worklet
+                ? Math.round(param(module, 'lookahead', 0) * 0.001 * sampleRate)
+                : NATIVE_COMPRESSOR_LATENCY;
+        case PluginType.MULTIBAND:
+            return worklet ? 0 : NATIVE_COMPRESSOR_LATENCY;
+        case PluginType.HYBRID_EQ_DYN: {
+            const nested = module.nestedModules;
+            const shaper = nested?.includes(PluginType.SATURATION)
+                ? NATIVE_OVERSAMPLE_LATENCY[nativeOversample(oversampleFactor(param(module, 'oversampleSat', DEFAULT_OVERSAMPLE)))]
+                : 0;
+            const comp = !nested || nested.includes(PluginType.COMPRESSOR) ? NATIVE_COMPRESSOR_LATENCY : 0;
+            return shaper + comp;
+        }
+        default:
+            // Filters, delay lines and the convolver add none (delay feedback shaping only moves the repeats)
+            return 0;
+    }
+};
+
+// Latency of the slowest path from input to output. Bypassed modules pass straight through.
+// Without a graph the modules run in series, so their latencies simply add up.
+export const getChainLatency = (
+    modules: PluginModuleState[],
+    routing: RoutingGraph | null,
+    latencyOf: (module: PluginModuleState) => number
+): number => {
+    const own = (id: string) => {
+        const module = modules.find(m => m.id === id);
+        return module && module.enabled ? latencyOf(module) : 0;
+    };
+    if (!routing) return modules.reduce((sum, m) => sum + own(m.id), 0);
+
+    const memo = new Map<string, number>();
+    const longest = (id: string): number => {
+        if (memo.has(id)) return memo.get(id)!;
+        memo.set(id, 0); // Guards against a malformed graph; the editor never allows cycles
+        const feeds = routing.edges.filter(e => e.to === id);
+        const upstream = feeds.length ? Math.max(...feeds.map(e => longest(e.from))) : 0;
+        const total = (id === INPUT_NODE_ID ? 0 : upstream) + own(id);
+        memo.set(id, total);
+        return total;
+    };
+    return longest(OUTPUT_NODE_ID);
+};
+
+export const formatLatency = (samples: number, sampleRate: number) =>
+    `${samples} smp · ${((samples / sampleRate) * 1000).toFixed(2)} ms`;
@@ -0,0 +1,46 @@
+// Linear-phase mode for the parametric EQ: the magnitude of the minimum-phase band cascade is
+// turned into a symmetric FIR, so the curve is identical and only the phase (and latency) differ.
+
+import { fft } from './fft';
+import { getBands } from './bands';
+
+export const PHASE_MODES = ['Minimum', 'Linear'];
+export const FIR_LENGTHS = [2048, 4096, 8192, 16384];
+export const DEFAULT_FIR_LENGTH = 2; // 8192
+
+export const isLinearPhase = (params: Record<string, number>) => (params.phaseMode || 0) >= 0.5;
+
+export const getFirLength = (index: number = DEFAULT_FIR_LENGTH) =>
+    FIR_LENGTHS[Math.max(0, Math.min(FIR_LENGTHS.length - 1, Math.round(index)))];
+
+// The kernel is centred, so the whole response arrives half a kernel late
+export const getFirLatency = (length: number) => length / 2;
+
+// `magnitude` holds length / 2 + 1 linear gains on the FFT bin grid (0 Hz .. Nyquist). The
+// zero-phase impulse is rotated to the kernel centre and Blackman-windowed to tame truncation.
+export const designLinearPhaseKernel = (magnitude: Float32Array, length: number): Float32Array => {
+    const re = new Float64Array(length);
+    const im = new Float64Array(length);
+    for (let k = 0; k <= length / 2; k++) {
+        re[k] = magnitude[k];
+        if (k > 0 && k < length / 2) re[length - k] = magnitude[k];
+    }
+    fft(re, im, true);
+
+    const kernel = new Float32Array(length);
+    const centre = length / 2;
+    for (let n = 0; n < length; n++) {
+        const window = 0.42 - 0.5 * Math.cos((2 * Math.PI * n) / length) + 0.08 * Math.cos((4 * Math.PI * n) / length);
+        kernel[n] = re[(n - centre + length) % length] * window;
+    }
+    return kernel;
+};
+
+// Cache key for a designed kernel; anything outside the band params, length and the match
+// filter (when one is applied) reuses it
+export const linearPhaseKey = (params: Record<string, number>, sampleRate: number, match: number[] | null = null) => {
+    const bands: number[] = [];
+    for (const i of getBands(params)) bands.push(params[`b${i}Freq`], params[`b${i}Gain`], params[`b${i}Q`], params[`b${i}Type`], params[`b${i}Slope`], params[`b${i}Chan`]);
+    const matchKey = match ? `${params.matchAmount}:${match.map(d => d.toFixed(2)).join(',')}` : '';
+    return `${sampleRate}|${getFirLength(params.firLength)}|${bands.join(',')}|${matchKey}`;
+};
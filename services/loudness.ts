@@ -0,0 +1,206 @@
+// ITU-R BS.1770 / EBU R128 loudness, true-peak and phase-correlation analysis. The analyzer
+// runs inside the metering worklet (serialized via toString) and on the main thread for
+// offline renders, so both report identical numbers.
+
+export interface LoudnessSnapshot {
+    momentary: number; // LUFS, 400 ms window
+    shortTerm: number; // LUFS, 3 s window
+    integrated: number; // LUFS, gated programme loudness since the last reset
+    range: number; // LU, EBU Tech 3342 loudness range
+    truePeak: number; // dBTP, 4x oversampled, held since the last reset
+    correlation: number; // -1..1, ~300 ms average (0 while either channel is silent)
+}
+
+export const SILENCE_LUFS = -70;
+
+// Must stay self-contained: no references to anything outside the function body, and no
+// syntax that would need compiler helpers.
+export function createLoudnessAnalyzer(rate: number) {
+    // K-weighting: high-shelf pre-filter and RLB highpass, designed for the running rate
+    const shelf = (() => {
+        const f0 = 1681.974450955533, G = 3.999843853973347, Q = 0.7071752369554196;
+        const K = Math.tan((Math.PI * f0) / rate);
+        const Vh = Math.pow(10, G / 20);
+        const Vb = Math.pow(Vh, 0.4996667741545416);
+        const a0 = 1 + K / Q + K * K;
+        return {
+            b0: (Vh + (Vb * K) / Q + K * K) / a0,
+            b1: (2 * (K * K - Vh)) / a0,
+            b2: (Vh - (Vb * K) / Q + K * K) / a0,
+            a1: (2 * (K * K - 1)) / a0,
+            a2: (1 - K / Q + K * K) / a0
+        };
+    })();
+    const highpass = (() => {
+        const f0 = 38.13547087602444, Q = 0.5003270373238773;
+        const K = Math.tan((Math.PI * f0) / rate);
+        const a0 = 1 + K / Q + K * K;
+        return { b0: 1, b1: -2, b2: 1, a1: (2 * (K * K - 1)) / a0, a2: (1 - K / Q + K * K) / a0 };
+    })();
+
+    // 4x true-peak interpolator: 12-tap Hann-windowed sinc per phase, phase 0 is the original sample
+    const TAPS = 12;
+    const phases: Float64Array[] = [];
+    for (let p = 0; p < 4; p++) {
+        const h = new Float64Array(TAPS);
+        for (let j = 0; j < TAPS; j++) {
+            const d = TAPS / 2 - j - p / 4;
+            const sinc = d === 0 ? 1 : Math.sin(Math.PI * d) / (Math.PI * d);
+            h[j] = sinc * 0.5 * (1 + Math.cos((Math.PI * d) / (TAPS / 2)));
+        }
+        phases.push(h);
+    }
+
+    const hop = Math.round(rate * 0.1);
+    const ABS_GATE = -70;
+    // Gating blocks and short-term windows are kept as 0.1 LU histograms from the absolute gate
+    // up, with the summed power per bin, so long sessions use fixed memory and time per update
+    const BIN_LU = 0.1;
+    const BINS = 800; // -70 .. +10 LUFS, louder blocks land in the top bin
+    const toLufs = (power: number) => (power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity);
+    const corrCoeff = Math.exp(-1 / (0.3 * rate));
+
+    let filters: number[][];
+    let history: Float64Array[];
+    let historyPos: number;
+    let hopSum: number;
+    let hopCount: number;
+    let hops: number[]; // Mean-square per 100 ms hop, most recent last (max 30)
+    let blocks: { count: Float64Array; power: Float64Array }; // 400 ms gating blocks
+    let shorts: { count: Float64Array; power: Float64Array }; // 3 s windows for the loudness range
+    let peak: number;
+    let sumLR: number, sumLL: number, sumRR: number;
+
+    const reset = () => {
+        filters = [[0, 0, 0, 0], [0, 0, 0, 0]];
+        history = [new Float64Array(TAPS), new Float64Array(TAPS)];
+        historyPos = 0;
+        hopSum = 0;
+        hopCount = 0;
+        hops = [];
+        blocks = { count: new Float64Array(BINS), power: new Float64Array(BINS) };
+        shorts = { count: new Float64Array(BINS), power: new Float64Array(BINS) };
+        peak = 0;
+        sumLR = 0; sumLL = 0; sumRR = 0;
+    };
+    reset();
+
+    const kWeight = (z: number[], x: number) => {
+        const y1 = shelf.b0 * x + z[0];
+        z[0] = shelf.b1 * x - shelf.a1 * y1 + z[1];
+        z[1] = shelf.b2 * x - shelf.a2 * y1;
+        const y2 = highpass.b0 * y1 + z[2];
+        z[2] = highpass.b1 * y1 - highpass.a1 * y2 + z[3];
+        z[3] = highpass.b2 * y1 - highpass.a2 * y2;
+        return y2;
+    };
+
+    const windowPower = (count: number) => {
+        if (hops.length < count) return 0;
+        let sum = 0;
+        for (let i = hops.length - count; i < hops.length; i++) sum += hops[i];
+        return sum / count;
+    };
+
+    // Blocks under the absolute gate (-70 LUFS) are never stored
+    const addBlock = (hist: { count: Float64Array; power: Float64Array }, power: number) => {
+        const l = toLufs(power);
+        if (!(l > ABS_GATE)) return;
+        const bin = Math.min(BINS - 1, Math.floor((l - ABS_GATE) / BIN_LU));
+        hist.count[bin]++;
+        hist.power[bin] += power;
+    };
+
+    // Relative gate `relative` LU below the mean of the stored blocks. Returns the first bin
+    // that passes (bins are judged by their centre), the block count and power sum from there.
+    const gated = (hist: { count: Float64Array; power: Float64Array }, relative: number) => {
+        let sum = 0, n = 0;
+        for (let b = 0; b < BINS; b++) { sum += hist.power[b]; n += hist.count[b]; }
+        if (n === 0) return { start: BINS, count: 0, power: 0 };
+        const threshold = toLufs(sum / n) - relative;
+        let start = 0;
+        while (start < BINS && ABS_GATE + (start + 0.5) * BIN_LU <= threshold) start++;
+        let count = 0, power = 0;
+        for (let b = start; b < BINS; b++) { count += hist.count[b]; power += hist.power[b]; }
+        return { start, count, power };
+    };
+
+    const completeHop = () => {
+        hops.push(hopSum / hopCount);
+        if (hops.length > 30) hops.shift();
+        hopSum = 0;
+        hopCount = 0;
+        if (hops.length >= 4) addBlock(blocks, windowPower(4));
+        if (hops.length >= 30) addBlock(shorts, windowPower(30));
+    };
+
+    // `left`/`right` may be the same array for mono input
+    const process = (left: Float32Array, right: Float32Array, length: number) => {
+        for (let i = 0; i < length; i++) {
+            const l = left[i];
+            const r = right[i];
+            const wl = kWeight(filters[0], l);
+            const wr = kWeight(filters[1], r);
+            hopSum += wl * wl + wr * wr;
+            hopCount++;
+            if (hopCount >= hop) completeHop();
+
+            history[0][historyPos] = l;
+            history[1][historyPos] = r;
+            historyPos = (historyPos + 1) % TAPS;
+            for (let ch = 0; ch < 2; ch++) {
+                const line = history[ch];
+                for (let p = 0; p < 4; p++) {
+                    const h = phases[p];
+                    let y = 0;
+                    for (let j = 0; j < TAPS; j++) y += h[j] * line[(historyPos - 1 - j + TAPS * 2) % TAPS];
+                    const a = Math.abs(y);
+                    if (a > peak) peak = a;
+                }
+            }
+
+            sumLR = corrCoeff * sumLR + (1 - corrCoeff) * l * r;
+            sumLL = corrCoeff * sumLL + (1 - corrCoeff) * l * l;
+            sumRR = corrCoeff * sumRR + (1 - corrCoeff) * r * r;
+        }
+    };
+
+    const snapshot = () => {
+        const floor = (v: number) => Math.max(v, -70);
+        const kept = gated(blocks, 10);
+
+        // Loudness range: 10th and 95th percentile of the gated short-term windows, read off the histogram
+        const short = gated(shorts, 20);
+        const pct = (q: number) => {
+            const target = Math.round(q * (short.count - 1));
+            let seen = 0;
+            for (let b = short.start; b < BINS; b++) {
+                seen += shorts.count[b];
+                if (seen > target) return ABS_GATE + (b + 0.5) * BIN_LU;
+            }
+            return ABS_GATE + BINS * BIN_LU;
+        };
+        const denom = Math.sqrt(sumLL * sumRR);
+
+        return {
+            momentary: floor(toLufs(windowPower(4))),
+            shortTerm: floor(toLufs(windowPower(30))),
+            integrated: kept.count ? floor(toLufs(kept.power / kept.count)) : -70,
+            range: short.count > 1 ? pct(0.95) - pct(0.1) : 0,
+            truePeak: peak > 0 ? 20 * Math.log10(peak) : -120,
+            correlation: denom > 1e-12 ? Math.max(-1, Math.min(1, sumLR / denom)) : 0
+        };
+    };
+
+    // The K-weighting biquads (a0 = 1) are exposed for the engine's native auto-gain taps
+    return { process, snapshot, reset, kWeighting: { shelf, highpass } };
+}
+
+// Offline measurement of a rendered buffer
+export const measureLoudness = (buffer: AudioBuffer): LoudnessSnapshot => {
+    const analyzer = createLoudnessAnalyzer(buffer.sampleRate);
+    const left = buffer.getChannelData(0);
+    const right = buffer.numberOfChannels > 1 ? buffer.getChannelData(1) : left;
+    analyzer.process(left, right, buffer.length);
+    return analyzer.snapshot();
+};
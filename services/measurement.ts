@@ -0,0 +1,130 @@
+// Transfer-function measurement of the chain. A test signal is rendered through it offline and
+// deconvolved: with enough zero padding the render is a plain linear convolution, so H = Y / X
+// holds per bin for any excitation. Bins are averaged in narrow log bands as Y X* / |X|^2,
+// which keeps noise excitations stable, and the reported latency is taken out of the phase.
+
+import { fft } from './fft';
+import { fillNoise } from './synth';
+
+export const TEST_SIGNALS = ['Sweep', 'Impulse', 'White Noise', 'Pink Noise'];
+const SWEEP = 0, IMPULSE = 1, PINK = 3;
+
+// Peak level of the sweep and impulse (-12 dBFS); noise is scaled to a similar loudness so
+// level-dependent modules are measured at a realistic working point
+export const TEST_LEVEL = 0.25;
+const SIGNAL_SECONDS = 2;
+const SWEEP_START = 20;
+const SWEEP_END = 20000;
+const FADE_SECONDS = 0.01;
+// Render tail after the signal, long enough for filters and short reverbs to ring out
+export const MEASURE_TAIL = 1;
+
+export const MEASURE_POINTS = 384;
+export const MEASURE_FREQS = Array.from({ length: MEASURE_POINTS }, (_, i) => 20 * Math.pow(1000, i / (MEASURE_POINTS - 1)));
+const SMOOTHING_OCTAVES = 1 / 24;
+
+export interface ChainMeasurement {
+    signal: number;
+    scope: 'MODULE' | 'CHAIN';
+    latency: number; // Samples taken out of the phase
+    magnitude: number[]; // dB at MEASURE_FREQS, NaN where the signal has no energy
+    phase: number[]; // Radians at MEASURE_FREQS
+}
+
+// Stereo test signal, the same in both channels
+export const createTestSignal = (ctx: BaseAudioContext, signal: number): AudioBuffer => {
+    const rate = ctx.sampleRate;
+    const length = signal === IMPULSE ? Math.round(rate * 0.1) : Math.round(rate * SIGNAL_SECONDS);
+    const data = new Float32Array(length);
+
+    if (signal === SWEEP) {
+        // Exponential sweep, equal time per octave, faded at both ends against clicks
+        const end = Math.min(SWEEP_END, rate * 0.45);
+        const k = Math.log(end / SWEEP_START);
+        const fade = Math.round(rate * FADE_SECONDS);
+        for (let i = 0; i < length; i++) {
+            const t = i / rate;
+            const env = Math.min(1, i / fade, (length - 1 - i) / fade);
+            data[i] = TEST_LEVEL * env * Math.sin(((2 * Math.PI * SWEEP_START * SIGNAL_SECONDS) / k) * (Math.exp((t * k) / SIGNAL_SECONDS) - 1));
+        }
+    } else if (signal === IMPULSE) {
+        data[0] = TEST_LEVEL;
+    } else {
+        fillNoise(data, signal === PINK);
+        let peak = 0;
+        for (let i = 0; i < length; i++) peak = Math.max(peak, Math.abs(data[i]));
+        for (let i = 0; i < length; i++) data[i] *= TEST_LEVEL / Math.max(peak, 1e-9);
+    }
+
+    const buffer = ctx.createBuffer(2, length, rate);
+    buffer.copyToChannel(data, 0);
+    buffer.copyToChannel(data, 1);
+    return buffer;
+};
+
+// Measured response of `response` (the render of `excitation`), on the mid of its channels
+export const measureResponse = (
+    excitation: AudioBuffer,
+    response: AudioBuffer,
+    latency: number,
+    signal: number,
+    scope: ChainMeasurement['scope']
+): ChainMeasurement => {
+    const rate = response.sampleRate;
+    let n = 1;
+    while (n < Math.max(response.length, excitation.length)) n <<= 1;
+
+    const xr = new Float64Array(n), xi = new Float64Array(n);
+    const yr = new Float64Array(n), yi = new Float64Array(n);
+    xr.set(excitation.getChannelData(0));
+    const channels = Array.from({ length: response.numberOfChannels }, (_, c) => response.getChannelData(c));
+    for (let i = 0; i < response.length; i++) {
+        let sum = 0;
+        for (const data of channels) sum += data[i];
+        yr[i] = sum / channels.length;
+    }
+    fft(xr, xi);
+    fft(yr, yi);
+
+    let maxPower = 0;
+    for (let k = 0; k <= n / 2; k++) maxPower = Math.max(maxPower, xr[k] * xr[k] + xi[k] * xi[k]);
+
+    const binHz = rate / n;
+    const magnitude: number[] = [];
+    const phase: number[] = [];
+    MEASURE_FREQS.forEach(f => {
+        const lo = Math.max(1, Math.floor((f * Math.pow(2, -SMOOTHING_OCTAVES / 2)) / binHz));
+        const hi = Math.min(n / 2, Math.max(lo, Math.ceil((f * Math.pow(2, SMOOTHING_OCTAVES / 2)) / binHz)));
+        let re = 0, im = 0, power = 0;
+        for (let k = lo; k <= hi; k++) {
+            // Y X*, rotated forward by the latency
+            const cr = yr[k] * xr[k] + yi[k] * xi[k];
+            const ci = yi[k] * xr[k] - yr[k] * xi[k];
+            const w = (2 * Math.PI * k * latency) / n;
+            const c = Math.cos(w), s = Math.sin(w);
+            re += cr * c - ci * s;
+            im += cr * s + ci * c;
+            power += xr[k] * xr[k] + xi[k] * xi[k];
+        }
+        if (power < maxPower * 1e-8 * (hi - lo + 1)) {
+            magnitude.push(NaN);
+            phase.push(0);
+            return;
+        }
+        magnitude.push(20 * Math.log10(Math.max(Math.hypot(re, im) / power, 1e-6)));
+        phase.push(Math.atan2(im, re));
+    });
+
+    return { signal, scope, latency, magnitude, phase };
+};
+
+// Measured magnitude (interpolated in log frequency) and phase (nearest point) at any frequency
+export const measurementAt = (measurement: ChainMeasurement, freq: number) => {
+    const pos = Math.max(0, Math.min(MEASURE_POINTS - 1, (Math.log(Math.max(freq, 1) / MEASURE_FREQS[0]) / Math.log(1000)) * (MEASURE_POINTS - 1)));
+    const i = Math.min(MEASURE_POINTS - 2, Math.floor(pos));
+    const { magnitude, phase } = measurement;
+    return {
+        magnitude: magnitude[i] + (magnitude[i + 1] - magnitude[i]) * (pos - i),
+        phase: phase[Math.round(pos)]
+    };
+};
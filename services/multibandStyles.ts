@@ -0,0 +1,38 @@
+import { MultibandStyle } from '../types';
+
+// Detector and gain-computer voicing applied on top of each band's own attack/release/ratio
+export interface MultibandVoicing {
+    detector: 'PEAK' | 'RMS';
+    knee: number; // dB
+    attackScale: number;
+    releaseScale: number;
+    ratioScale: number;
+    programRelease: boolean; // Release slows down the longer a band has been compressing (opto cell)
+    saturation: number; // Post-band soft clip drive, 0 = off
+    summary: string;
+}
+
+export const MULTIBAND_VOICINGS: Record<MultibandStyle, MultibandVoicing> = {
+    CLEAN: {
+        detector: 'PEAK', knee: 6, attackScale: 1, releaseScale: 1, ratioScale: 1, programRelease: false, saturation: 0,
+        summary: 'transparent peak detector, 6 dB soft knee, band attack/release as set'
+    },
+    PUNCHY: {
+        detector: 'PEAK', knee: 2, attackScale: 2.5, releaseScale: 0.6, ratioScale: 1, programRelease: false, saturation: 0,
+        summary: 'peak detector, near-hard 2 dB knee, slowed attack (x2.5) to let transients through, fast release (x0.6)'
+    },
+    SMOOTH: {
+        detector: 'RMS', knee: 12, attackScale: 1.5, releaseScale: 1.8, ratioScale: 0.8, programRelease: false, saturation: 0,
+        summary: '10 ms RMS detector, wide 12 dB knee, relaxed attack (x1.5) and release (x1.8), gentler ratio (x0.8)'
+    },
+    CRUSH: {
+        detector: 'PEAK', knee: 0, attackScale: 0.3, releaseScale: 0.5, ratioScale: 1.5, programRelease: false, saturation: 3,
+        summary: 'peak detector, hard knee, very fast attack (x0.3) and release (x0.5), steeper ratio (x1.5), tanh saturation after each band'
+    },
+    OPTO: {
+        detector: 'RMS', knee: 10, attackScale: 2, releaseScale: 1, ratioScale: 1, programRelease: true, saturation: 0,
+        summary: '10 ms RMS detector, 10 dB knee, slow attack (x2), program-dependent release that lengthens with sustained gain reduction'
+    }
+};
+
+export const getMultibandVoicing = (style?: MultibandStyle) => MULTIBAND_VOICINGS[style || 'CLEAN'] || MULTIBAND_VOICINGS.CLEAN;
@@ -0,0 +1,110 @@
+// Impulse responses for the convolution reverb: the parametric synthetic IR and shaping
+// for user-loaded IRs. Shared by the REVERB module and the reverb nested in HYBRID_EQ_DYN.
+
+export interface ReverbSettings {
+    decay: number; // RT60 in seconds
+    size: number; // 0..1, spreads early reflections and slows the tail build-up
+    predelay: number; // ms
+    damping: number; // 0..1, how quickly highs die away relative to lows
+    early: number; // 0..1, early reflection level
+}
+
+const safe = (val: any, def: number) => (typeof val === 'number' && Number.isFinite(val) ? val : def);
+const clamp = (val: number, min: number, max: number) => Math.max(min, Math.min(max, val));
+
+export const getReverbSettings = (params: Record<string, number>): ReverbSettings => ({
+    decay: clamp(safe(params.decay, 2.0), 0.1, 10),
+    size: clamp(safe(params.size, 0.8), 0, 1),
+    predelay: clamp(safe(params.predelay, 10), 0, 250),
+    damping: clamp(safe(params.damping, 0.5), 0, 1),
+    early: clamp(safe(params.early, 0.5), 0, 1)
+});
+
+// Identifies an IR so unchanged settings don't trigger a regeneration
+export const reverbSettingsKey = (s: ReverbSettings) =>
+    [s.decay.toFixed(2), s.size.toFixed(2), s.predelay.toFixed(0), s.damping.toFixed(2), s.early.toFixed(2)].join('|');
+
+export const generateReverbImpulse = (context: BaseAudioContext, settings: ReverbSettings): AudioBuffer => {
+    const { decay, size, predelay, damping, early } = settings;
+    const rate = context.sampleRate;
+    const pre = Math.round((predelay / 1000) * rate);
+    const tailLength = Math.round((decay * 1.2 + 0.1) * rate);
+    const impulse = context.createBuffer(2, pre + tailLength, rate);
+
+    // Early reflections land in the first 10-80 ms depending on room size
+    const erWindow = (0.01 + 0.07 * size) * rate;
+    const erCount = Math.round(6 + 14 * size);
+    // Diffuse tail fades in as the reflections densify, -60 dB after `decay` seconds
+    const onset = Math.max(1, erWindow * 0.5);
+    const decayRate = Math.log(1000) / (decay * rate);
+
+    for (let ch = 0; ch < 2; ch++) {
+        const data = impulse.getChannelData(ch);
+
+        for (let k = 0; k < erCount; k++) {
+            const pos = pre + Math.floor((erWindow * (k + Math.random())) / erCount);
+            const polarity = Math.random() < 0.5 ? -1 : 1;
+            data[pos] += polarity * early * 0.5 * (1 - 0.6 * (k / erCount));
+        }
+
+        // Time-varying one-pole lowpass: the tail darkens as it decays
+        let lp = 0;
+        for (let i = 0; i < tailLength; i++) {
+            const a = 0.95 * damping * Math.min(1, i / (decay * rate));
+            lp += (1 - a) * ((Math.random() * 2 - 1) - lp);
+            const env = Math.exp(-decayRate * i) * Math.min(1, i / onset);
+            data[pre + i] += lp * env;
+        }
+    }
+
+    return impulse;
+};
+
+export interface ImpulseShaping {
+    stretch: number; // Playback-rate style time scale, 1 = as recorded
+    trim: number; // Fraction of the (stretched) length kept
+    reverse: boolean;
+    predelay: number; // ms
+}
+
+export const getImpulseShaping = (params: Record<string, number>): ImpulseShaping => ({
+    stretch: clamp(safe(params.irStretch, 1), 0.5, 2),
+    trim: clamp(safe(params.irTrim, 100), 5, 100) / 100,
+    reverse: safe(params.irReverse, 0) >= 0.5,
+    predelay: clamp(safe(params.predelay, 10), 0, 250)
+});
+
+export const impulseShapingKey = (s: ImpulseShaping) =>
+    [s.stretch.toFixed(2), s.trim.toFixed(2), s.reverse ? 'r' : 'f', s.predelay.toFixed(0)].join('|');
+
+// Resamples, trims, reverses and pre-delays a loaded IR. Output is mono or stereo since
+// ConvolverNode only accepts 1, 2 or 4 channel buffers.
+export const shapeImpulse = (context: BaseAudioContext, source: AudioBuffer, shaping: ImpulseShaping): AudioBuffer => {
+    const { stretch, trim, reverse, predelay } = shaping;
+    const rate = context.sampleRate;
+    // Account for the file's own rate so stretch 1 keeps the original timing
+    const step = source.sampleRate / rate / stretch;
+    const stretchedLength = Math.max(1, Math.floor((source.length - 1) / step) + 1);
+    const length = Math.max(1, Math.round(stretchedLength * trim));
+    const pre = Math.round((predelay / 1000) * rate);
+    const fade = Math.min(length, Math.round(0.01 * rate));
+    const channels = Math.min(2, source.numberOfChannels);
+    const impulse = context.createBuffer(channels, pre + length, rate);
+
+    for (let ch = 0; ch < channels; ch++) {
+        const input = source.getChannelData(ch);
+        const data = impulse.getChannelData(ch);
+        for (let i = 0; i < length; i++) {
+            const pos = i * step;
+            const idx = Math.floor(pos);
+            const frac = pos - idx;
+            const a = input[idx] || 0;
+            const b = idx + 1 < input.length ? input[idx + 1] : 0;
+            // Short fade at the cut so trimming doesn't click
+            const gain = trim < 1 && i >= length - fade ? (length - i) / fade : 1;
+            data[pre + (reverse ? length - 1 - i : i)] = (a + (b - a) * frac) * gain;
+        }
+    }
+
+    return impulse;
+};
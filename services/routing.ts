@@ -0,0 +1,160 @@
+// Routing graph helpers shared by the Architect editor, the engine and the code generator.
+// Without a graph the project is the plain module list run top to bottom.
+
+import { PluginModuleState, RoutingEdge, RoutingGraph, RoutingNode, SplitMode } from '../types';
+
+export const INPUT_NODE_ID = 'input';
+export const OUTPUT_NODE_ID = 'output';
+
+export const SPLIT_MODES: { mode: SplitMode; label: string; ports: string[] }[] = [
+    { mode: 'PARALLEL', label: 'Parallel', ports: ['Out'] },
+    { mode: 'LR', label: 'Left / Right', ports: ['L', 'R'] },
+    { mode: 'MS', label: 'Mid / Side', ports: ['Mid', 'Side'] },
+    { mode: 'FREQ', label: 'Frequency', ports: ['Low', 'High'] }
+];
+
+export const DEFAULT_SPLIT_FREQ = 500;
+
+export const getSplitPorts = (mode: SplitMode = 'PARALLEL') =>
+    (SPLIT_MODES.find(s => s.mode === mode) || SPLIT_MODES[0]).ports;
+
+// Output ports a node exposes in the editor
+export const getOutputPorts = (node: RoutingNode): string[] => {
+    if (node.kind === 'OUTPUT') return [];
+    if (node.kind === 'SPLIT') return getSplitPorts(node.splitMode);
+    return ['Out'];
+};
+
+export const dbToGain = (db: number = 0) => Math.pow(10, db / 20);
+
+const NODE_SPACING = 170;
+
+// INPUT -> modules in list order -> OUTPUT, i.e. exactly what the linear chain does
+export const createLinearGraph = (modules: PluginModuleState[]): RoutingGraph => {
+    const nodes: RoutingNode[] = [
+        { id: INPUT_NODE_ID, kind: 'INPUT', x: 20, y: 80 },
+        ...modules.map((m, i) => ({ id: m.id, kind: 'MODULE' as const, x: 20 + NODE_SPACING * (i + 1), y: 80 })),
+        { id: OUTPUT_NODE_ID, kind: 'OUTPUT', x: 20 + NODE_SPACING * (modules.length + 1), y: 80 }
+    ];
+    const edges: RoutingEdge[] = [];
+    for (let i = 0; i < nodes.length - 1; i++) {
+        edges.push({ id: `${nodes[i].id}->${nodes[i + 1].id}`, from: nodes[i].id, to: nodes[i + 1].id });
+    }
+    return { nodes, edges };
+};
+
+// True if `to` can already reach `from`, so adding from -> to would close a loop
+export const wouldCreateCycle = (graph: RoutingGraph, from: string, to: string) => {
+    if (from === to) return true;
+    const stack = [to];
+    const seen = new Set<string>();
+    while (stack.length) {
+        const id = stack.pop()!;
+        if (id === from) return true;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        graph.edges.forEach(e => { if (e.from === id) stack.push(e.to); });
+    }
+    return false;
+};
+
+export const canConnect = (graph: RoutingGraph, from: string, fromPort: number, to: string) => {
+    const source = graph.nodes.find(n => n.id === from);
+    const target = graph.nodes.find(n => n.id === to);
+    if (!source || !target || source.kind === 'OUTPUT' || target.kind === 'INPUT') return false;
+    if (graph.edges.some(e => e.from === from && (e.fromPort || 0) === fromPort && e.to === to)) return false;
+    return !wouldCreateCycle(graph, from, to);
+};
+
+// Removes a node and, when it sat on a single path, joins its neighbours so the path stays intact
+export const removeGraphNode = (graph: RoutingGraph, id: string): RoutingGraph => {
+    const incoming = graph.edges.filter(e => e.to === id);
+    const outgoing = graph.edges.filter(e => e.from === id);
+    const edges = graph.edges.filter(e => e.from !== id && e.to !== id);
+    if (incoming.length === 1 && outgoing.length === 1) {
+        const [a, b] = [incoming[0], outgoing[0]];
+        if (!edges.some(e => e.from === a.from && (e.fromPort || 0) === (a.fromPort || 0) && e.to === b.to)) {
+            edges.push({ id: `${a.from}:${a.fromPort || 0}->${b.to}`, from: a.from, fromPort: a.fromPort, to: b.to, gain: b.gain });
+        }
+    }
+    return { nodes: graph.nodes.filter(n => n.id !== id), edges };
+};
+
+// Keeps MODULE nodes in step with the module list. New modules are spliced in front of the
+// output when it has a single feed, otherwise they are left unconnected for the user to wire.
+export const syncGraphWithModules = (graph: RoutingGraph, modules: PluginModuleState[]): RoutingGraph => {
+    let next = graph;
+    graph.nodes.forEach(n => {
+        if (n.kind === 'MODULE' && !modules.some(m => m.id === n.id)) next = removeGraphNode(next, n.id);
+    });
+
+    modules.forEach(m => {
+        if (next.nodes.some(n => n.id === m.id)) return;
+        const output = next.nodes.find(n => n.kind === 'OUTPUT');
+        const feeds = next.edges.filter(e => e.to === OUTPUT_NODE_ID);
+        const node: RoutingNode = {
+            id: m.id,
+            kind: 'MODULE',
+            x: output ? output.x : 20,
+            y: output ? output.y : 80
+        };
+        let edges = next.edges;
+        if (feeds.length === 1) {
+            const feed = feeds[0];
+            edges = [
+                ...edges.filter(e => e !== feed),
+                { ...feed, id: `${feed.from}:${feed.fromPort || 0}->${m.id}`, to: m.id, gain: undefined },
+                { id: `${m.id}->${OUTPUT_NODE_ID}`, from: m.id, to: OUTPUT_NODE_ID, gain: feed.gain }
+            ];
+        }
+        next = {
+            nodes: [...next.nodes.map(n => n.kind === 'OUTPUT' ? { ...n, x: n.x + NODE_SPACING } : n), node],
+            edges
+        };
+    });
+    return next;
+};
+
+// Plain-text topology for the code generator
+export const describeRouting = (
+    graph: RoutingGraph,
+    modules: PluginModuleState[],
+    describeModule: (m: PluginModuleState) => string
+) => {
+    const label = (id: string) => {
+        const node = graph.nodes.find(n => n.id === id);
+        if (!node) return id;
+        if (node.kind === 'MODULE') {
+            const module = modules.find(m => m.id === id);
+            return module ? `${module.type}#${id}` : id;
+        }
+        return node.kind === 'INPUT' || node.kind === 'OUTPUT' ? node.kind : `${node.kind}#${id}`;
+    };
+
+    const nodeLines = graph.nodes.map(n => {
+        if (n.kind === 'MODULE') {
+            const module = modules.find(m => m.id === n.id);
+            if (!module) return null;
+            return `${label(n.id)}: ${describeModule(module)}${module.enabled ? '' : ' [BYPASSED - pass input straight through]'}`;
+        }
+        if (n.kind === 'SPLIT') {
+            const mode = n.splitMode || 'PARALLEL';
+            const ports = getSplitPorts(mode).map((p, i) => `port ${i} = ${p}`).join(', ');
+            const detail = mode === 'FREQ' ? `, Linkwitz-Riley 24 dB/oct at ${n.splitFreq || DEFAULT_SPLIT_FREQ} Hz` : '';
+            const ms = mode === 'MS' ? ', Mid = (L+R)/2 on both channels, Side = (L-R)/2 on L and inverted on R' : '';
+            const lr = mode === 'LR' ? ', each port keeps its channel and silences the other' : '';
+            return `${label(n.id)}: splitter (${mode}; ${ports}${detail}${ms}${lr})`;
+        }
+        if (n.kind === 'MERGE') return `${label(n.id)}: summing mixer (sum of its inputs after each input's gain)`;
+        return null;
+    }).filter(Boolean);
+
+    const edgeLines = graph.edges.map(e => {
+        const from = graph.nodes.find(n => n.id === e.from);
+        const port = from?.kind === 'SPLIT' ? `[port ${e.fromPort || 0}]` : '';
+        const gain = e.gain ? ` (gain ${e.gain.toFixed(1)} dB)` : '';
+        return `${label(e.from)}${port} -> ${label(e.to)}${gain}`;
+    });
+
+    return `Nodes:\n${nodeLines.map(l => `      - ${l}`).join('\n')}\n    Connections (stereo buses; a node with several inputs sums them):\n${edgeLines.map(l => `      - ${l}`).join('\n')}`;
+};
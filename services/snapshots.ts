@@ -0,0 +1,30 @@
+// A/B comparison. Every module keeps two parameter snapshots and `params` is always the live
+// copy of the active one, so the engine never sees slots: switching is an ordinary param
+// update, smoothed like any other. A slot that was never stored starts as a copy of the other.
+
+import { PluginModuleState, SnapshotSlot } from '../types';
+
+export const getActiveSnapshot = (module: PluginModuleState): SnapshotSlot => module.activeSnapshot || 'A';
+
+const otherSlot = (slot: SnapshotSlot): SnapshotSlot => (slot === 'A' ? 'B' : 'A');
+
+// Stores the live params in the active slot and loads `slot`
+export const switchSnapshot = (module: PluginModuleState, slot: SnapshotSlot): PluginModuleState => {
+    const active = getActiveSnapshot(module);
+    if (slot === active) return module;
+    const snapshots = { ...module.snapshots, [active]: module.params };
+    return { ...module, snapshots, activeSnapshot: slot, params: { ...(snapshots[slot] || module.params) } };
+};
+
+// Overwrites the inactive slot with the live params
+export const copySnapshot = (module: PluginModuleState): PluginModuleState => {
+    const active = getActiveSnapshot(module);
+    return { ...module, snapshots: { [active]: module.params, [otherSlot(active)]: { ...module.params } } };
+};
+
+// The slot the whole chain is on, or null while modules disagree
+export const getChainSnapshot = (modules: PluginModuleState[]): SnapshotSlot | null => {
+    if (modules.every(m => getActiveSnapshot(m) === 'A')) return 'A';
+    if (modules.every(m => getActiveSnapshot(m) === 'B')) return 'B';
+    return null;
+};
@@ -0,0 +1,114 @@
+// Reference-track matching for the parametric EQ. Both files are averaged offline over their
+// whole length, smoothed in fractional octaves and subtracted; the level difference is taken
+// out so only the tonal balance is matched. The curve is either fitted with bell bands or,
+// in linear-phase mode, multiplied straight into the FIR as a high-resolution match filter.
+
+import { PluginModuleState } from '../types';
+import { fft } from './fft';
+import { replaceBands } from './bands';
+import { designStages, getBandStagesFromParams, stagesResponse } from './eqShapes';
+
+// Curve points, log-spaced over the audible range
+export const MATCH_POINTS = 256;
+export const MATCH_FREQS = Array.from({ length: MATCH_POINTS }, (_, i) => 20 * Math.pow(1000, i / (MATCH_POINTS - 1)));
+export const MATCH_RANGE = 12; // dB, either way
+export const MATCH_SMOOTHING = ['1/1 oct', '1/3 oct', '1/6 oct', '1/12 oct'];
+const SMOOTHING_OCTAVES = [1, 1 / 3, 1 / 6, 1 / 12];
+export const DEFAULT_MATCH_SMOOTHING = 1;
+export const MATCH_BAND_COUNT = 12;
+
+const FFT_SIZE = 8192;
+// Long files are sampled with a wider hop so analysis stays around a second
+const MAX_FRAMES = 1500;
+
+export const isMatchFilterOn = (params: Record<string, number>) => (params.matchFilter || 0) >= 0.5;
+export const getMatchAmount = (params: Record<string, number>) => Math.max(0, Math.min(100, params.matchAmount ?? 100)) / 100;
+
+// The curve the linear-phase FIR applies, null when the match filter is off
+export const getMatchFilterCurve = (module: PluginModuleState) =>
+    module.spectralMatch && isMatchFilterOn(module.params) ? module.spectralMatch.curve : null;
+
+// Mean power per FFT bin of the mono sum, Hann-windowed
+export const averageSpectrum = (buffer: AudioBuffer): Float64Array => {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    const length = buffer.length;
+    const hop = Math.max(FFT_SIZE / 2, Math.floor((length - FFT_SIZE) / MAX_FRAMES));
+    const window = Float64Array.from({ length: FFT_SIZE }, (_, n) => 0.5 - 0.5 * Math.cos((2 * Math.PI * n) / FFT_SIZE));
+    const power = new Float64Array(FFT_SIZE / 2 + 1);
+    const re = new Float64Array(FFT_SIZE);
+    const im = new Float64Array(FFT_SIZE);
+    let frames = 0;
+
+    for (let start = 0; start + FFT_SIZE <= Math.max(length, FFT_SIZE); start += hop) {
+        for (let n = 0; n < FFT_SIZE; n++) {
+            let sum = 0;
+            for (const data of channels) sum += data[start + n] || 0;
+            re[n] = (sum / channels.length) * window[n];
+            im[n] = 0;
+        }
+        fft(re, im);
+        for (let k = 0; k < power.length; k++) power[k] += re[k] * re[k] + im[k] * im[k];
+        frames++;
+    }
+    for (let k = 0; k < power.length; k++) power[k] /= Math.max(1, frames);
+    return power;
+};
+
+// dB at MATCH_FREQS, each point the mean power over `octaves` around it
+const smoothSpectrum = (power: Float64Array, sampleRate: number, octaves: number) => {
+    const binHz = sampleRate / FFT_SIZE;
+    return MATCH_FREQS.map(f => {
+        const lo = Math.max(1, Math.floor((f * Math.pow(2, -octaves / 2)) / binHz));
+        const hi = Math.min(power.length - 1, Math.max(lo, Math.ceil((f * Math.pow(2, octaves / 2)) / binHz)));
+        let sum = 0;
+        for (let k = lo; k <= hi; k++) sum += power[k];
+        return 10 * Math.log10(Math.max(sum / (hi - lo + 1), 1e-20));
+    });
+};
+
+// Reference minus source in dB, level-matched over 100 Hz - 10 kHz and clamped to MATCH_RANGE
+export const computeMatchCurve = (source: AudioBuffer, reference: AudioBuffer, smoothing = DEFAULT_MATCH_SMOOTHING): number[] => {
+    const octaves = SMOOTHING_OCTAVES[Math.max(0, Math.min(SMOOTHING_OCTAVES.length - 1, Math.round(smoothing)))];
+    const src = smoothSpectrum(averageSpectrum(source), source.sampleRate, octaves);
+    const ref = smoothSpectrum(averageSpectrum(reference), reference.sampleRate, octaves);
+    const diff = ref.map((r, i) => r - src[i]);
+
+    const mid = MATCH_FREQS.map((f, i) => (f >= 100 && f <= 10000 ? diff[i] : NaN)).filter(d => !Number.isNaN(d));
+    const offset = mid.reduce((a, d) => a + d, 0) / Math.max(1, mid.length);
+    return diff.map(d => Math.max(-MATCH_RANGE, Math.min(MATCH_RANGE, d - offset)));
+};
+
+// Curve value at any frequency, interpolated in log frequency and held at the ends
+export const matchGainAt = (curve: number[], freq: number) => {
+    const pos = (Math.log(Math.max(freq, 1) / MATCH_FREQS[0]) / Math.log(1000)) * (MATCH_POINTS - 1);
+    if (pos <= 0) return curve[0];
+    if (pos >= MATCH_POINTS - 1) return curve[MATCH_POINTS - 1];
+    const i = Math.floor(pos);
+    return curve[i] + (curve[i + 1] - curve[i]) * (pos - i);
+};
+
+// Replaces the bands with log-spaced bells whose summed response follows the curve at `amount`.
+// Neighbouring bells overlap, so gains are refined against the actual response (at the rate
+// the EQ runs at) a few times.
+export const fitMatchBands = (params: Record<string, number>, curve: number[], amount: number, rate: number, count = MATCH_BAND_COUNT) => {
+    const freqs = Array.from({ length: count }, (_, i) => 30 * Math.pow(16000 / 30, i / (count - 1)));
+    const octaves = Math.log2(16000 / 30) / (count - 1);
+    const q = Math.sqrt(Math.pow(2, octaves)) / (Math.pow(2, octaves) - 1);
+    const targets = freqs.map(f => matchGainAt(curve, f) * amount);
+
+    const next = replaceBands(params, freqs);
+    freqs.forEach((_, i) => {
+        next[`b${i + 1}Q`] = Math.round(q * 10) / 10;
+        next[`b${i + 1}Gain`] = targets[i];
+    });
+
+    for (let pass = 0; pass < 12; pass++) {
+        const coeffs = designStages(freqs.flatMap((_, i) => getBandStagesFromParams(next, i + 1)), rate);
+        freqs.forEach((f, i) => {
+            const response = 20 * Math.log10(Math.max(1e-6, stagesResponse(coeffs, f, rate).mag));
+            next[`b${i + 1}Gain`] = Math.max(-18, Math.min(18, next[`b${i + 1}Gain`] + 0.6 * (targets[i] - response)));
+        });
+    }
+    freqs.forEach((_, i) => (next[`b${i + 1}Gain`] = Math.round(next[`b${i + 1}Gain`] * 10) / 10));
+    return next;
+};
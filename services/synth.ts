@@ -0,0 +1,181 @@
+// Signal generator of the OSCILLATOR module. Each note is a voice of up to seven detuned
+// oscillators spread across the stereo field, optional noise and an ADSR envelope, all stock
+// nodes so offline renders work too. The pulse wave is a saw minus a copy of itself delayed
+// by width / f (zero-mean and band-limited); the module's LFO moves that delay for PWM.
+
+export const SYNTH_WAVEFORMS = ['Sine', 'Triangle', 'Saw', 'Square', 'Pulse'];
+export const NOISE_TYPES = ['Off', 'White', 'Pink'];
+export const MAX_UNISON = 7;
+export const MAX_VOICES = 8;
+// Voice slot of the held test tone, outside the MIDI note range
+export const HOLD_NOTE = -1;
+
+const WAVE_TYPES: OscillatorType[] = ['sine', 'triangle', 'sawtooth', 'square', 'sawtooth'];
+const PULSE = 4;
+
+// Computer keyboard as a piano: the home row plays white keys from C, the row above the black keys
+export const KEYBOARD_NOTES: Record<string, number> = {
+    a: 0, w: 1, s: 2, e: 3, d: 4, f: 5, t: 6, g: 7, y: 8, h: 9, u: 10, j: 11, k: 12, o: 13, l: 14, p: 15, ';': 16
+};
+// Keys that move the keyboard octave down and up
+export const OCTAVE_KEYS: Record<string, number> = { z: -1, x: 1 };
+
+export const noteToFreq = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+// MIDI note for a keyboard key at `octave` (C4 = 60), null for keys that don't play
+export const getKeyboardNote = (key: string, octave: number) => {
+    const offset = KEYBOARD_NOTES[key.toLowerCase()];
+    return offset === undefined ? null : 12 * (Math.round(octave) + 1) + offset;
+};
+
+// Fills `data` with uniform white noise in -1..1, or pink noise (Paul Kellet's filter) at a
+// similar level
+export const fillNoise = (data: Float32Array, pink: boolean) => {
+    let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+    for (let i = 0; i < data.length; i++) {
+        const white = Math.random() * 2 - 1;
+        if (!pink) {
+            data[i] = white;
+            continue;
+        }
+        b0 = 0.99886 * b0 + white * 0.0555179;
+        b1 = 0.99332 * b1 + white * 0.0750759;
+        b2 = 0.969 * b2 + white * 0.153852;
+        b3 = 0.8665 * b3 + white * 0.3104856;
+        b4 = 0.55 * b4 + white * 0.5329522;
+        b5 = -0.7616 * b5 - white * 0.016898;
+        data[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+        b6 = white * 0.115926;
+    }
+    return data;
+};
+
+// Two seconds of looped noise per context
+const noiseBuffers: WeakMap<BaseAudioContext, AudioBuffer[]> = new WeakMap();
+const getNoiseBuffer = (ctx: BaseAudioContext, pink: boolean) => {
+    let buffers = noiseBuffers.get(ctx);
+    if (!buffers) {
+        buffers = [false, true].map(isPink => {
+            const buffer = ctx.createBuffer(1, ctx.sampleRate * 2, ctx.sampleRate);
+            fillNoise(buffer.getChannelData(0), isPink);
+            return buffer;
+        });
+        noiseBuffers.set(ctx, buffers);
+    }
+    return buffers[pink ? 1 : 0];
+};
+
+export interface SynthVoice {
+    key: string; // Params the voice was built from, see synthVoiceKey
+    setFrequency: (freq: number, time: number) => void;
+    stop: (time: number) => void;
+}
+
+// Everything fixed when a voice starts; a held tone restarts when this changes
+export const synthVoiceKey = (params: Record<string, number>) =>
+    ['waveform', 'pulseWidth', 'pwmDepth', 'unison', 'spread', 'detune', 'noiseType', 'noiseLevel', 'attack', 'decay', 'sustain', 'release']
+        .map(id => params[id])
+        .join('|');
+
+export const createSynthVoice = (
+    ctx: BaseAudioContext,
+    params: Record<string, number>,
+    freq: number,
+    destination: AudioNode,
+    lfo: AudioNode,
+    velocity = 1
+): SynthVoice => {
+    const v = (key: string, def: number) => (typeof params[key] === 'number' && Number.isFinite(params[key]) ? params[key] : def);
+    const t = ctx.currentTime;
+    const waveform = Math.max(0, Math.min(WAVE_TYPES.length - 1, Math.round(v('waveform', 2))));
+    const unison = Math.max(1, Math.min(MAX_UNISON, Math.round(v('unison', 1))));
+    const spread = v('spread', 15);
+    const width = v('pulseWidth', 50) / 100;
+    // PWM swing, limited so the modulated width stays within 1..99% of the period
+    const depth = Math.max(0, Math.min(v('pwmDepth', 0) / 100, width - 0.01, 0.99 - width));
+    const attack = Math.max(0.001, v('attack', 0.005));
+    const decay = Math.max(0.001, v('decay', 0.2));
+    const sustain = Math.max(0, Math.min(1, v('sustain', 0.8)));
+    const release = Math.max(0.001, v('release', 0.3));
+
+    const env = ctx.createGain();
+    env.gain.setValueAtTime(0, t);
+    env.gain.linearRampToValueAtTime(velocity, t + attack);
+    env.gain.setTargetAtTime(sustain * velocity, t + attack, decay / 3);
+    env.connect(destination);
+
+    const sources: AudioScheduledSourceNode[] = [];
+    const pulseDelays: { delay: DelayNode; depth: GainNode }[] = [];
+    for (let u = 0; u < unison; u++) {
+        const position = unison > 1 ? (u / (unison - 1)) * 2 - 1 : 0;
+        const osc = ctx.createOscillator();
+        osc.type = WAVE_TYPES[waveform];
+        osc.frequency.value = freq;
+        osc.detune.value = v('detune', 0) + position * spread;
+        const level = ctx.createGain();
+        level.gain.value = (waveform === PULSE ? 0.5 : 1) / Math.sqrt(unison);
+        const pan = ctx.createStereoPanner();
+        pan.pan.value = position * 0.7;
+        osc.connect(level);
+        level.connect(pan);
+        pan.connect(env);
+
+        if (waveform === PULSE) {
+            const delay = ctx.createDelay(0.05);
+            const invert = ctx.createGain();
+            const lfoDepth = ctx.createGain();
+            invert.gain.value = -1;
+            delay.delayTime.value = width / freq;
+            lfoDepth.gain.value = depth / freq;
+            osc.connect(delay);
+            delay.connect(invert);
+            invert.connect(level);
+            lfo.connect(lfoDepth);
+            lfoDepth.connect(delay.delayTime);
+            pulseDelays.push({ delay, depth: lfoDepth });
+        }
+        osc.start(t);
+        sources.push(osc);
+    }
+
+    const noiseType = Math.round(v('noiseType', 0));
+    if (noiseType > 0) {
+        const noise = ctx.createBufferSource();
+        noise.buffer = getNoiseBuffer(ctx, noiseType === 2);
+        noise.loop = true;
+        const level = ctx.createGain();
+        level.gain.value = v('noiseLevel', 0.3);
+        noise.connect(level);
+        level.connect(env);
+        noise.start(t, Math.random() * 2);
+        sources.push(noise);
+    }
+
+    return {
+        key: synthVoiceKey(params),
+        setFrequency: (next, time) => {
+            sources.forEach(s => {
+                if (s instanceof OscillatorNode) s.frequency.setTargetAtTime(next, time, 0.02);
+            });
+            pulseDelays.forEach(({ delay, depth: lfoDepth }) => {
+                delay.delayTime.setTargetAtTime(width / next, time, 0.02);
+                lfoDepth.gain.setTargetAtTime(depth / next, time, 0.02);
+            });
+        },
+        stop: (time) => {
+            // Release from wherever the envelope is, even mid-attack
+            if (env.gain.cancelAndHoldAtTime) env.gain.cancelAndHoldAtTime(time);
+            else {
+                env.gain.cancelScheduledValues(time);
+                env.gain.setValueAtTime(env.gain.value, time);
+            }
+            env.gain.setTargetAtTime(0, time, release / 3);
+            const end = time + release * 2;
+            sources.forEach(s => s.stop(end));
+            sources[0].onended = () => {
+                env.disconnect();
+                pulseDelays.forEach(({ depth: lfoDepth }) => lfoDepth.disconnect());
+            };
+        }
+    };
+};
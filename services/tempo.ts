@@ -0,0 +1,28 @@
+// Note values for tempo-synced modules. Beats are quarter notes.
+
+export const NOTE_DIVISIONS: { label: string; beats: number }[] = [
+    { label: '1/1', beats: 4 },
+    { label: '1/2D', beats: 3 },
+    { label: '1/2', beats: 2 },
+    { label: '1/2T', beats: 4 / 3 },
+    { label: '1/4D', beats: 1.5 },
+    { label: '1/4', beats: 1 },
+    { label: '1/4T', beats: 2 / 3 },
+    { label: '1/8D', beats: 0.75 },
+    { label: '1/8', beats: 0.5 },
+    { label: '1/8T', beats: 1 / 3 },
+    { label: '1/16D', beats: 0.375 },
+    { label: '1/16', beats: 0.25 },
+    { label: '1/16T', beats: 1 / 6 },
+    { label: '1/32', beats: 0.125 }
+];
+
+export const DEFAULT_BPM = 120;
+
+// Division for a stored param value, rounded and clamped to the list
+export const getDivision = (index: number) => NOTE_DIVISIONS[Math.max(0, Math.min(NOTE_DIVISIONS.length - 1, Math.round(index)))];
+
+export const divisionToSeconds = (index: number, bpm: number) => {
+    const division = getDivision(index);
+    return (division.beats * 60) / Math.max(20, bpm);
+};
@@ -0,0 +1,60 @@
+// RIFF/WAVE encoder for offline bounces. 16/24-bit are TPDF-dithered PCM, 32-bit is IEEE float.
+
+export type WavBitDepth = 16 | 24 | 32;
+
+const writeString = (view: DataView, offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+export const encodeWav = (buffer: AudioBuffer, bitDepth: WavBitDepth = 24): Blob => {
+    const channels = buffer.numberOfChannels;
+    const frames = buffer.length;
+    const bytesPerSample = bitDepth / 8;
+    const blockAlign = channels * bytesPerSample;
+    const dataSize = frames * blockAlign;
+    const isFloat = bitDepth === 32;
+
+    const view = new DataView(new ArrayBuffer(44 + dataSize));
+    writeString(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(view, 8, 'WAVE');
+    writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, isFloat ? 3 : 1, true); // 3 = IEEE float, 1 = PCM
+    view.setUint16(22, channels, true);
+    view.setUint32(24, buffer.sampleRate, true);
+    view.setUint32(28, buffer.sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bitDepth, true);
+    writeString(view, 36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    const data: Float32Array[] = [];
+    for (let ch = 0; ch < channels; ch++) data.push(buffer.getChannelData(ch));
+
+    const maxInt = Math.pow(2, bitDepth - 1) - 1;
+    let offset = 44;
+    for (let i = 0; i < frames; i++) {
+        for (let ch = 0; ch < channels; ch++) {
+            const sample = data[ch][i];
+            if (isFloat) {
+                view.setFloat32(offset, sample, true);
+            } else {
+                // TPDF dither of +-1 LSB before quantising
+                const dither = (Math.random() - Math.random()) / maxInt;
+                const clamped = Math.max(-1, Math.min(1, sample + dither));
+                const int = Math.round(clamped * maxInt);
+                if (bitDepth === 16) {
+                    view.setInt16(offset, int, true);
+                } else {
+                    view.setUint8(offset, int & 0xff);
+                    view.setUint8(offset + 1, (int >> 8) & 0xff);
+                    view.setUint8(offset + 2, (int >> 16) & 0xff);
+                }
+            }
+            offset += bytesPerSample;
+        }
+    }
+
+    return new Blob([view], { type: 'audio/wav' });
+};
@@ -42,9 +42,10 @@ export interface AudioParamConfig {
   step: number;
   unit?: string;
   hidden?: boolean; // For params controlled solely via graph
+  options?: string[]; // Labels for stepped params shown as a dropdown (value = index)
 }
 
-export type UIComponentType = 'KNOB' | 'SLIDER' | 'SWITCH' | 'SECTION' | 'SPACER' | 'BRANDING' | 'SCREW' | 'RACK' | 'VISUALIZER' | 'DROPDOWN' | 'STEREO_BAR' | 'MULTIBAND_CONTROLS';
+export type UIComponentType = 'KNOB' | 'SLIDER' | 'SWITCH' | 'SECTION' | 'SPACER' | 'BRANDING' | 'SCREW' | 'RACK' | 'VISUALIZER' | 'DROPDOWN' | 'STEREO_BAR' | 'MULTIBAND_CONTROLS' | 'IR_LOADER' | 'EQ_BAND_CONTROLS' | 'MATCH_EQ' | 'SYNTH_KEYS' | 'HARMONICS';
 
 export type SectionVariant = 'simple' | 'card' | 'solid' | 'minimal' | 'glass_row';
 export type RackVariant = 'basic' | 'industrial' | 'metal' | 'framed' | 'cyber';
@@ -88,6 +89,49 @@ export interface UIComponent {
   visualizerMode?: VisualizerMode;
 }
 
+// User impulse response, decoded into the engine's impulse library and referenced by id
+export interface ImpulseRef {
+  id: string;
+  name: string;
+  duration: number; // seconds
+}
+
+// Spectral match of the parametric EQ: smoothed reference-minus-source balance in dB at
+// MATCH_FREQS, kept with the module so it survives without the files
+export interface SpectralMatch {
+  reference: string; // File name, for display
+  curve: number[];
+}
+
+// Routing graph. MODULE nodes share the id of the module they place; INPUT/OUTPUT are the plugin's ends.
+export type RoutingNodeKind = 'INPUT' | 'OUTPUT' | 'MODULE' | 'SPLIT' | 'MERGE';
+export type SplitMode = 'PARALLEL' | 'LR' | 'MS' | 'FREQ';
+
+export interface RoutingNode {
+  id: string;
+  kind: RoutingNodeKind;
+  x: number; // Editor position (px)
+  y: number;
+  splitMode?: SplitMode;
+  splitFreq?: number; // Hz, FREQ split crossover
+}
+
+export interface RoutingEdge {
+  id: string;
+  from: string;
+  to: string;
+  fromPort?: number; // SPLIT output (0 = L/Mid/Low, 1 = R/Side/High)
+  gain?: number; // dB, trims this input into a MERGE
+}
+
+export interface RoutingGraph {
+  nodes: RoutingNode[];
+  edges: RoutingEdge[];
+}
+
+// A/B comparison slots
+export type SnapshotSlot = 'A' | 'B';
+
 export interface PluginModuleState {
   id: string;
   type: PluginType;
@@ -102,6 +146,10 @@ export interface PluginModuleState {
   saturationMode?: SaturationMode;
   shineMode?: ShineMode;
   multibandStyle?: MultibandStyle;
+  impulse?: ImpulseRef; // Loaded IR for REVERB (used when irSource is on)
+  spectralMatch?: SpectralMatch; // VISUAL_EQ reference match (used as a filter when matchFilter is on)
+  snapshots?: Partial<Record<SnapshotSlot, Record<string, number>>>; // A/B params, the active slot is live in `params`
+  activeSnapshot?: SnapshotSlot; // A when unset
   title?: string; // Custom name for the module header
   innerLabel?: string; // Custom text for the visualizer overlay
   layout?: UIComponent[]; // Custom UI layout